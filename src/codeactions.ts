@@ -0,0 +1,41 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import {getSyntaxTree, toVSCodeRange} from './symbols';
+import {DiagnosticCode} from './output';
+import {Fix, identifierFixes, numericalTypeFixes} from './fixes';
+
+function codeAction(document: vscode.TextDocument, diagnostic: vscode.Diagnostic, fix: Fix): vscode.CodeAction {
+	const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+	action.diagnostics = [diagnostic];
+	action.edit = new vscode.WorkspaceEdit();
+	fix.edits.forEach(edit => action.edit.replace(document.uri, toVSCodeRange(edit.range), edit.text));
+	action.isPreferred = fix.preferred;
+	return action;
+}
+
+/* offers the fixes of `fixes.ts` for the diagnostics that `diagnosticCode` recognized */
+export class AlanCodeActionProvider implements vscode.CodeActionProvider {
+	public static readonly metadata: vscode.CodeActionProviderMetadata = {
+		providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+	};
+
+	public provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext, token: vscode.CancellationToken): vscode.CodeAction[] {
+		const tree = getSyntaxTree(document);
+		const lines = document.getText().split(/\r?\n/);
+		const actions: vscode.CodeAction[] = [];
+		context.diagnostics.forEach(diagnostic => {
+			let fixes: Fix[] = [];
+			switch (diagnostic.code as DiagnosticCode) {
+				case 'undefined-numerical-type':
+					fixes = numericalTypeFixes(tree, lines, diagnostic.message, diagnostic.range);
+					break;
+				case 'unresolved-identifier':
+					fixes = identifierFixes(tree, lines, diagnostic.range);
+					break;
+			}
+			fixes.forEach(fix => actions.push(codeAction(document, diagnostic, fix)));
+		});
+		return actions;
+	}
+}
@@ -0,0 +1,164 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {numerical_property_types, walk, SyntaxNode, SyntaxTree, Token, TokenType} from './parser';
+import {dataContext, isNavigationOperator, locateToken, navigationChain, numericalTypes, resolvePendingStep} from './resolver';
+import {getSyntaxTree, symbolKind, toVSCodeRange} from './symbols';
+import {AlanSymbolIndex} from './indexer';
+
+const property_type_snippets: [string, string, string][] = [
+	['collection', 'collection [\'${1:key}\'] {\n\t\'${1:key}\': text\n\t$0\n}', 'collection of nodes, identified by a key'],
+	['stategroup', 'stategroup (\n\t\'${1:state}\' -> { $0}\n)', 'one of a set of states'],
+	['group', 'group {\n\t$0\n}', 'group of properties'],
+	['text', 'text', 'text value, optionally a reference'],
+	['integer', 'integer \'${1:numerical type}\'', 'integer number of a numerical type'],
+	['natural', 'natural \'${1:numerical type}\'', 'natural number of a numerical type'],
+	['file', 'file', 'file'],
+	['reference-set', 'reference-set -> $0', 'inverse of a reference'],
+	['command', 'command {\n\t$0\n}', 'command']
+];
+const annotations: string[] = [
+	'@identifying', '@description:', '@default:', '@hidden', '@breakout', '@small', '@multi-line', '@sticky',
+	'@verified', '@desired', '@dormant', '@min:', '@max:', '@validate:', '@label:', '@icon:', '@name',
+	'@date', '@date-time', '@duration:', '@factor:', '@numerical-type:'
+];
+
+function mapSymbolKind2CompletionItemKind(kind: vscode.SymbolKind) {
+	switch (kind) {
+		case vscode.SymbolKind.File:
+			return vscode.CompletionItemKind.File;
+		case vscode.SymbolKind.Module:
+			return vscode.CompletionItemKind.Module;
+		case vscode.SymbolKind.Namespace:
+			return vscode.CompletionItemKind.Module;
+		case vscode.SymbolKind.Class:
+			return vscode.CompletionItemKind.Class;
+		case vscode.SymbolKind.Method:
+			return vscode.CompletionItemKind.Method;
+		case vscode.SymbolKind.Enum:
+			return vscode.CompletionItemKind.Enum;
+		case vscode.SymbolKind.Interface:
+			return vscode.CompletionItemKind.Interface;
+		case vscode.SymbolKind.Function:
+			return vscode.CompletionItemKind.Function;
+		case vscode.SymbolKind.Variable:
+			return vscode.CompletionItemKind.Variable;
+		case vscode.SymbolKind.Constant:
+			return vscode.CompletionItemKind.Constant;
+		case vscode.SymbolKind.String:
+			return vscode.CompletionItemKind.Text;
+		case vscode.SymbolKind.Number:
+			return vscode.CompletionItemKind.Constant;
+		case vscode.SymbolKind.Array:
+			return vscode.CompletionItemKind.Property;
+		case vscode.SymbolKind.Event:
+			return vscode.CompletionItemKind.Event;
+		case vscode.SymbolKind.Operator:
+			return vscode.CompletionItemKind.Operator;
+		case vscode.SymbolKind.TypeParameter:
+			return vscode.CompletionItemKind.TypeParameter;
+		case vscode.SymbolKind.Struct:
+			return vscode.CompletionItemKind.Struct;
+		case vscode.SymbolKind.EnumMember:
+			return vscode.CompletionItemKind.EnumMember;
+		default:
+			return vscode.CompletionItemKind.Struct;
+	}
+}
+
+function identifierItem(node: SyntaxNode, range: vscode.Range | undefined): vscode.CompletionItem {
+	const item = new vscode.CompletionItem(node.name, mapSymbolKind2CompletionItemKind(symbolKind(node)));
+	item.insertText = `'${node.name}'`;
+	item.filterText = `'${node.name}'`;
+	item.detail = node.type;
+	item.range = range;
+	return item;
+}
+
+function keywordItem(keyword: string, range: vscode.Range | undefined): vscode.CompletionItem {
+	const item = new vscode.CompletionItem(keyword, vscode.CompletionItemKind.Keyword);
+	item.range = range;
+	return item;
+}
+
+export class AlanCompletionItemProvider implements vscode.CompletionItemProvider {
+	constructor(private index: AlanSymbolIndex) {}
+
+	public async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.CompletionItem[] | undefined> {
+		const tree = getSyntaxTree(document);
+
+		// the token being typed and the token before it
+		let typed: Token | undefined;
+		let previous_index = -1;
+		for (let i = 0; i < tree.tokens.length; i++) {
+			const token = tree.tokens[i];
+			const start = toVSCodeRange(token.range).start;
+			if (start.isAfterOrEqual(position)) break;
+			if (toVSCodeRange(token.range).contains(position) && (token.type === TokenType.Identifier || token.type === TokenType.Keyword || token.text === '@')) {
+				typed = token;
+				break;
+			}
+			previous_index = i;
+		}
+		const previous = previous_index === -1 ? undefined : tree.tokens[previous_index];
+		const range = typed ? toVSCodeRange(typed.range) : undefined;
+
+		if (typed && typed.text[0] === '@') {
+			return annotations.map(annotation => keywordItem(annotation, range));
+		}
+		if (previous && previous.type === TokenType.Operator && (previous.text === ':' || previous.text === ':=')
+			&& (!typed || typed.type === TokenType.Keyword)) {
+			return property_type_snippets.map(([type, snippet, description]) => {
+				const item = keywordItem(type, range);
+				item.insertText = new vscode.SnippetString(snippet);
+				item.documentation = description;
+				return item;
+			});
+		}
+		if (typed && typed.type !== TokenType.Identifier) {
+			return undefined; //fall back to built-in wordenize
+		}
+
+		if (previous && previous.type === TokenType.Keyword && numerical_property_types.indexOf(previous.text) !== -1) {
+			return numericalTypes(tree).map(node => identifierItem(node, range));
+		}
+		if (previous && isNavigationOperator(previous)) {
+			const location = locateToken(tree, previous);
+			if (location.statement) {
+				const chain = navigationChain(location.statement.tokens, location.index);
+				const pending = resolvePendingStep(tree, dataContext(location.statement), chain);
+				if (pending) {
+					const children = pending.node ? pending.node.children : tree.nodes;
+					return children
+						.filter(child => child.kind !== 'section' && (pending.step === '?' ? child.kind === 'state' : child.kind !== 'state'))
+						.map(child => identifierItem(child, range));
+				}
+			}
+		}
+		if (!typed) {
+			return undefined;
+		}
+		return this.provideNameItems(document, tree, range);
+	}
+
+	/* all names in the document and in the other files with the same extension */
+	private async provideNameItems(document: vscode.TextDocument, tree: SyntaxTree, range: vscode.Range | undefined): Promise<vscode.CompletionItem[]> {
+		const result: Map<string, vscode.CompletionItem> = new Map();
+		walk(tree.nodes, node => {
+			if (node.kind === 'section') return;
+			const existing_item = result.get(node.name);
+			if (!existing_item || (node.type !== undefined && existing_item.detail === undefined)) {
+				result.set(node.name, identifierItem(node, range));
+			}
+		});
+
+		await this.index.ready;
+		this.index.names(path.extname(document.fileName)).forEach((node, name) => {
+			if (!result.has(name)) {
+				result.set(name, identifierItem(node, range));
+			}
+		});
+		return Array.from(result.values());
+	}
+}
@@ -0,0 +1,237 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {git, gitLog} from './git';
+
+export type DataSource = 'empty' | 'migrate' | 'ask';
+
+export interface DeploymentProfile {
+	name: string;
+	host?: string;
+	port?: string;
+	container?: string;
+	script: string;          // the deploy script, absolute or relative to the alan root
+	data_source: DataSource; // 'ask' asks for the data source on every deploy
+	before_empty_deploy?: string; // shell command that has to succeed before the data is removed, e.g. an export
+}
+
+/* an entry of the deploy audit log */
+export interface DeployRecord {
+	time: string;
+	user: string;
+	profile: string;
+	target: string;
+	project: string;
+	commit?: string;
+	data_source: string;
+	result: string;
+}
+
+export const default_deploy_script = 'deploy.sh';
+const environment_profile = 'online IDE';
+const last_profile_key = 'alan.deploy.lastProfile';
+
+interface ProfileSetting {
+	name?: string;
+	host?: string;
+	port?: string | number;
+	container?: string;
+	script?: string;
+	dataSource?: DataSource;
+	beforeEmptyDeploy?: string;
+}
+
+interface ProfileItem extends vscode.QuickPickItem {
+	profile: DeploymentProfile;
+}
+
+/* the deployment of the online IDE, configured by its environment variables */
+function environmentProfile(): DeploymentProfile | undefined {
+	if (!process.env.CONTAINER_NAME || !process.env.DEPLOY_HOST || !process.env.DEPLOY_PORT) return undefined;
+	return {
+		name: environment_profile,
+		host: process.env.DEPLOY_HOST,
+		port: process.env.DEPLOY_PORT,
+		container: process.env.CONTAINER_NAME,
+		script: default_deploy_script,
+		data_source: 'ask'
+	};
+}
+
+function configuredProfiles(): DeploymentProfile[] {
+	const settings = vscode.workspace.getConfiguration('alan-definitions').get<ProfileSetting[]>('deploymentProfiles', []);
+	return (Array.isArray(settings) ? settings : [])
+		.filter(setting => setting && typeof setting.name === 'string' && setting.name.trim() !== '')
+		.map(setting => ({
+			name: setting.name.trim(),
+			host: setting.host,
+			port: setting.port === undefined ? undefined : `${setting.port}`,
+			container: setting.container,
+			script: setting.script || default_deploy_script,
+			data_source: setting.dataSource === 'empty' || setting.dataSource === 'migrate' ? setting.dataSource : 'ask',
+			before_empty_deploy: setting.beforeEmptyDeploy || undefined
+		}));
+}
+
+/* the environment variables the deploy script of `profile` runs with; the same variables the online IDE sets */
+export function profileEnvironment(profile: DeploymentProfile): {[name: string]: string} {
+	const env: {[name: string]: string} = {};
+	if (profile.container !== undefined) env.CONTAINER_NAME = profile.container;
+	if (profile.host !== undefined) env.DEPLOY_HOST = profile.host;
+	if (profile.port !== undefined) env.DEPLOY_PORT = profile.port;
+	return env;
+}
+
+/* the deploy script of `profile` for the project at `alan_root` */
+export function profileScript(profile: DeploymentProfile, alan_root: string): string {
+	return path.resolve(alan_root, profile.script);
+}
+
+export function profileTarget(profile: DeploymentProfile): string {
+	const address = profile.host === undefined ? undefined : profile.port === undefined ? profile.host : `${profile.host}:${profile.port}`;
+	return [profile.container, address].filter(part => part !== undefined && part !== '').join(' @ ');
+}
+
+/* asks to type the name of the container, or of the project if the profile has no container, before its data is removed */
+export async function confirmEmptyDeploy(profile: DeploymentProfile, alan_root: string): Promise<boolean> {
+	const name = profile.container || path.basename(alan_root);
+	const typed = await vscode.window.showInputBox({
+		prompt: `Deploying with an empty dataset removes all user data of '${name}' (profile '${profile.name}'). Type '${name}' to confirm.`,
+		placeHolder: name,
+		ignoreFocusOut: true,
+		validateInput: value => value === '' || value === name ? undefined : `Type '${name}' to confirm, or press Escape to cancel.`
+	});
+	return typed === name;
+}
+
+/* the audit log of the deployments of the project at `alan_root`, if it is enabled */
+function auditLogFile(alan_root: string): string | undefined {
+	const file = vscode.workspace.getConfiguration('alan-definitions').get<string>('deployAuditLog', '');
+	return file ? path.resolve(alan_root, file) : undefined;
+}
+
+/* the git user of the project, or the user of the system if there is none */
+async function deployUser(alan_root: string): Promise<string> {
+	const name = (await git(alan_root, ['config', 'user.name']).catch(() => '')).trim();
+	if (name) return name;
+	try {
+		return os.userInfo().username;
+	} catch {
+		return process.env.USER || process.env.USERNAME || 'unknown';
+	}
+}
+
+/* the audit record of a deployment of the project at `alan_root` that is about to start */
+export async function deployRecord(profile: DeploymentProfile, alan_root: string, data_source: string): Promise<DeployRecord> {
+	const commits = await gitLog(alan_root, 1).catch(() => []);
+	return {
+		time: new Date().toISOString(),
+		user: await deployUser(alan_root),
+		profile: profile.name,
+		target: profileTarget(profile),
+		project: alan_root,
+		commit: commits.length > 0 ? commits[0].hash : undefined,
+		data_source: data_source,
+		result: 'started'
+	};
+}
+
+/* appends `record` to the audit log as a line of JSON */
+export function logDeployment(alan_root: string, record: DeployRecord) {
+	const file = auditLogFile(alan_root);
+	if (!file) return;
+	fs.appendFile(file, JSON.stringify(record) + '\n', err => {
+		if (err) vscode.window.showWarningMessage(`Unable to write the deploy audit log '${file}': ${err.message}`);
+	});
+}
+
+/*
+	The deployment profiles of the `alan-definitions.deploymentProfiles` setting, and the profile of the online IDE
+	if its environment variables are set. Keeps an output channel per profile with the history of its deployments,
+	and sets the `isAlanDeploySupported` context when there is a profile to deploy with.
+*/
+export class DeploymentProfiles implements vscode.Disposable {
+	private change_emitter = new vscode.EventEmitter<void>();
+	public readonly onDidChange: vscode.Event<void> = this.change_emitter.event;
+	private histories: Map<string, vscode.OutputChannel> = new Map();
+	private disposables: vscode.Disposable[];
+
+	constructor(private state: vscode.Memento) {
+		this.disposables = [
+			this.change_emitter,
+			vscode.workspace.onDidChangeConfiguration(event => {
+				if (event.affectsConfiguration('alan-definitions.deploymentProfiles')) {
+					this.updateContext();
+					this.change_emitter.fire();
+				}
+			})
+		];
+		this.updateContext();
+	}
+
+	public dispose() {
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.histories.forEach(channel => channel.dispose());
+	}
+
+	public all(): DeploymentProfile[] {
+		const profiles = configuredProfiles();
+		const from_environment = environmentProfile();
+		if (from_environment && !profiles.some(profile => profile.name === from_environment.name)) {
+			profiles.push(from_environment);
+		}
+		return profiles;
+	}
+
+	public isSupported(): boolean {
+		return this.all().length > 0;
+	}
+
+	private updateContext() {
+		vscode.commands.executeCommand('setContext', 'isAlanDeploySupported', this.isSupported());
+	}
+
+	/* asks for the profile to deploy with, the last used profile first; a single profile is used without asking */
+	public async pick(place_holder: string = 'deployment profile'): Promise<DeploymentProfile | undefined> {
+		const profiles = this.all();
+		if (profiles.length === 0) {
+			const open_settings = 'Open Settings';
+			if (await vscode.window.showErrorMessage('No Alan deployment profiles are configured.', open_settings) === open_settings) {
+				vscode.commands.executeCommand('workbench.action.openSettings', 'alan-definitions.deploymentProfiles');
+			}
+			return undefined;
+		}
+		if (profiles.length === 1) return profiles[0];
+
+		const last_profile = this.state.get<string>(last_profile_key);
+		const items: ProfileItem[] = profiles.map(profile => ({
+			label: profile.name,
+			description: profileTarget(profile),
+			detail: `${profile.script}${profile.data_source === 'ask' ? '' : ` ${profile.data_source}`}`,
+			profile: profile
+		}));
+		items.sort((a, b) => (a.label === last_profile ? 0 : 1) - (b.label === last_profile ? 0 : 1));
+		const pick = await vscode.window.showQuickPick(items, { placeHolder: place_holder });
+		if (!pick) return undefined;
+		this.state.update(last_profile_key, pick.profile.name);
+		return pick.profile;
+	}
+
+	/* the output channel with the history of the deployments with `profile` */
+	public history(profile: DeploymentProfile): vscode.OutputChannel {
+		let channel = this.histories.get(profile.name);
+		if (!channel) {
+			channel = vscode.window.createOutputChannel(`Alan Deploy: ${profile.name}`);
+			this.histories.set(profile.name, channel);
+		}
+		return channel;
+	}
+
+	public async showHistory() {
+		const profile = await this.pick('deployment profile to show the history of');
+		if (profile) this.history(profile).show(true);
+	}
+}
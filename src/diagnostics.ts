@@ -0,0 +1,110 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import {CompilerDiagnostic, diagnosticCode, fullMessage} from './output';
+import {toVSCodeRange} from './symbols';
+
+export type TaskKind = 'build' | 'fetch' | 'package' | 'migration' | 'deploy' | 'test';
+
+const source = 'alan';
+const stale_source = 'alan (stale)';
+
+export function toVSCodeDiagnostic(compiler_diagnostic: CompilerDiagnostic): vscode.Diagnostic {
+	const severity = compiler_diagnostic.severity === 'error' ?
+		vscode.DiagnosticSeverity.Error : compiler_diagnostic.severity === 'warning' ?
+			vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information;
+	const diagnostic = new vscode.Diagnostic(toVSCodeRange(compiler_diagnostic.range), fullMessage(compiler_diagnostic), severity);
+	diagnostic.source = source;
+	diagnostic.code = diagnosticCode(compiler_diagnostic.message);
+	diagnostic.relatedInformation = compiler_diagnostic.related.map(related => new vscode.DiagnosticRelatedInformation(
+		new vscode.Location(vscode.Uri.file(related.file), toVSCodeRange(related.range)),
+		related.message
+	));
+	return diagnostic;
+}
+
+function diagnosticKey(diagnostic: vscode.Diagnostic): string {
+	const {start, end} = diagnostic.range;
+	return `${start.line}:${start.character}-${end.line}:${end.character} ${diagnostic.severity} ${diagnostic.source} ${diagnostic.message}`;
+}
+
+function resultsKey(kind: TaskKind, root: string): string {
+	return `${kind}:${root}`;
+}
+
+/*
+	Diagnostics reported by Alan tasks, tracked per task kind and project: a fetch doesn't clear build errors,
+	and building one project doesn't clear the errors of another.
+	Results of the previous run stay visible (marked as stale) until the next run of the same kind finishes,
+	and the Problems view is only updated for files whose diagnostics actually changed.
+*/
+export class CompilerDiagnostics implements vscode.Disposable {
+	private results: Map<string /* kind:root */, Map<string, vscode.Diagnostic[]>> = new Map();
+	private published: Map<string, string> = new Map(); // uri -> key of the published diagnostics
+
+	constructor(private collection: vscode.DiagnosticCollection) {}
+
+	public dispose() {
+		this.collection.dispose();
+	}
+
+	private setSource(kind: TaskKind, root: string, diagnostic_source: string) {
+		const results = this.results.get(resultsKey(kind, root));
+		if (!results) return;
+
+		results.forEach((diagnostics, uri) => {
+			results.set(uri, diagnostics.map(diagnostic => {
+				const copy = new vscode.Diagnostic(diagnostic.range, diagnostic.message, diagnostic.severity);
+				copy.source = diagnostic_source;
+				copy.code = diagnostic.code;
+				copy.relatedInformation = diagnostic.relatedInformation;
+				return copy;
+			}));
+		});
+		this.update();
+	}
+
+	/* marks the diagnostics of `kind` in the project at `root` as stale while a new run is in progress */
+	public markStale(kind: TaskKind, root: string) {
+		this.setSource(kind, root, stale_source);
+	}
+
+	/* restores the diagnostics of `kind` in the project at `root` after a run that didn't finish */
+	public restore(kind: TaskKind, root: string) {
+		this.setSource(kind, root, source);
+	}
+
+	/* replaces the diagnostics of `kind` in the project at `root` with the results of a finished run */
+	public publish(kind: TaskKind, root: string, diagnostics: [vscode.Uri, vscode.Diagnostic[]][]) {
+		const results: Map<string, vscode.Diagnostic[]> = new Map();
+		diagnostics.forEach(([uri, file_diagnostics]) => {
+			const key = uri.toString();
+			results.set(key, (results.get(key) || []).concat(file_diagnostics));
+		});
+		this.results.set(resultsKey(kind, root), results);
+		this.update();
+	}
+
+	private update() {
+		const merged: Map<string, vscode.Diagnostic[]> = new Map();
+		this.results.forEach(results => {
+			results.forEach((diagnostics, uri) => {
+				merged.set(uri, (merged.get(uri) || []).concat(diagnostics));
+			});
+		});
+
+		merged.forEach((diagnostics, uri) => {
+			const key = diagnostics.map(diagnosticKey).join('\n');
+			if (this.published.get(uri) !== key) {
+				this.collection.set(vscode.Uri.parse(uri), diagnostics);
+				this.published.set(uri, key);
+			}
+		});
+		Array.from(this.published.keys()).forEach(uri => {
+			if (!merged.has(uri)) {
+				this.collection.delete(vscode.Uri.parse(uri));
+				this.published.delete(uri);
+			}
+		});
+	}
+}
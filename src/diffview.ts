@@ -0,0 +1,187 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {parse} from './parser';
+import {toVSCodeRange} from './symbols';
+import {Commit, gitBranches, gitLog, gitShow} from './git';
+import {ModelChange, changePath, diffModels} from './modeldiff';
+import {migrationModels} from './migration';
+
+export const revision_scheme = 'alan-revision';
+const working_tree = ''; // the revision of the files on disk
+const listed_commits = 50;
+
+interface RevisionItem extends vscode.QuickPickItem {
+	revision: string;
+}
+
+interface ModelComparison {
+	file: string;
+	old_revision: string;
+	new_revision: string;
+	old_label: string;
+	new_label: string;
+	changes: ModelChange[];
+}
+
+/* the uri of `file` in `revision`: files of earlier revisions are provided by `AlanRevisionContentProvider` */
+function revisionUri(file: string, revision: string): vscode.Uri {
+	return revision === working_tree
+		? vscode.Uri.file(file)
+		: vscode.Uri.file(file).with({ scheme: revision_scheme, query: revision });
+}
+
+/* provides the contents of files in earlier git revisions */
+export class AlanRevisionContentProvider implements vscode.TextDocumentContentProvider {
+	public provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+		return gitShow(path.dirname(uri.fsPath), uri.query, path.basename(uri.fsPath));
+	}
+}
+
+async function readRevision(file: string, revision: string): Promise<string> {
+	if (revision !== working_tree) {
+		return gitShow(path.dirname(file), revision, path.basename(file));
+	}
+	const document = vscode.workspace.textDocuments.find(document => document.uri.scheme === 'file' && document.uri.fsPath === file);
+	return document ? document.getText() : fs.readFileSync(file).toString();
+}
+
+function revisionItems(branches: string[], commits: Commit[]): RevisionItem[] {
+	return branches.map(branch => ({ label: `$(git-branch) ${branch}`, revision: branch }))
+		.concat(commits.map(commit => ({ label: `$(git-commit) ${commit.short_hash}`, description: commit.date, detail: commit.subject, revision: commit.hash })));
+}
+
+function revisionLabel(item: RevisionItem): string {
+	return item.revision === working_tree ? 'working tree' : item.label.replace(/^\$\([a-z-]+\) /, '');
+}
+
+/* the application.alan to compare for `system`: models in the folder of the system first */
+async function pickModel(alan_root: string, system: string): Promise<string | undefined> {
+	const models = (await vscode.workspace.findFiles(new vscode.RelativePattern(alan_root, '**/application.alan'), '**/{node_modules,.alan,migrations}/**'))
+		.map(uri => uri.fsPath);
+	const system_folder = path.join(alan_root, 'systems', system);
+	const sorted = models.filter(model => model.startsWith(system_folder + path.sep))
+		.concat(models.filter(model => !model.startsWith(system_folder + path.sep)).sort());
+	if (sorted.length <= 1) {
+		return sorted[0];
+	}
+	const pick = await vscode.window.showQuickPick(sorted.map(model => ({ label: path.relative(alan_root, model).replace(/\\/g, '/'), model: model })), {
+		placeHolder: `model of system '${system}'`
+	});
+	return pick && pick.model;
+}
+
+/* asks for a system and two revisions of its model, and compares them */
+async function compareRevisions(alan_root: string, system?: string): Promise<ModelComparison | undefined> {
+	const systems = migrationModels(alan_root).map(model_lib => path.dirname(model_lib));
+	if (system === undefined || systems.indexOf(system) === -1) {
+		system = systems.length <= 1 ? systems[0] : await vscode.window.showQuickPick(systems, { placeHolder: 'system to compare the model of' });
+		if (system === undefined) {
+			if (systems.length === 0) vscode.window.showErrorMessage(`No systems with a model.lib.link found in '${alan_root}'.`);
+			return undefined;
+		}
+	}
+	const file = await pickModel(alan_root, system);
+	if (!file) {
+		vscode.window.showErrorMessage(`No application.alan found for system '${system}'.`);
+		return undefined;
+	}
+
+	let branches: string[];
+	let commits: Commit[];
+	try {
+		[branches, commits] = await Promise.all([gitBranches(alan_root), gitLog(path.dirname(file), listed_commits, path.basename(file))]);
+	} catch (err) {
+		vscode.window.showErrorMessage(`Unable to read the git history of '${alan_root}': ${err instanceof Error ? err.message : err}`);
+		return undefined;
+	}
+	const old_item = await vscode.window.showQuickPick(revisionItems(branches, commits), { placeHolder: 'compare the model of this commit or branch…' });
+	if (!old_item) return undefined;
+	const new_items: RevisionItem[] = [{ label: '$(file) working tree', revision: working_tree } as RevisionItem].concat(revisionItems(branches, commits));
+	const new_item = await vscode.window.showQuickPick(new_items.filter(item => item.revision !== old_item.revision), { placeHolder: `…with the model of (comparing with ${revisionLabel(old_item)})` });
+	if (!new_item) return undefined;
+
+	try {
+		const [old_text, new_text] = await Promise.all([readRevision(file, old_item.revision), readRevision(file, new_item.revision)]);
+		return {
+			file: file,
+			old_revision: old_item.revision,
+			new_revision: new_item.revision,
+			old_label: revisionLabel(old_item),
+			new_label: revisionLabel(new_item),
+			changes: diffModels(parse(old_text), parse(new_text))
+		};
+	} catch (err) {
+		vscode.window.showErrorMessage(`Unable to read the models to compare: ${err instanceof Error ? err.message : err}`);
+		return undefined;
+	}
+}
+
+function changeItem(comparison: ModelComparison, change: ModelChange): vscode.TreeItem {
+	const item = new vscode.TreeItem(changePath(change));
+	item.description = change.description;
+	item.iconPath = new vscode.ThemeIcon(change.migration !== undefined ? 'warning'
+		: change.kind === 'added' ? 'diff-added' : change.kind === 'removed' ? 'diff-removed' : 'diff-modified');
+	item.tooltip = change.migration !== undefined ? `${change.description}\nNeeds migration: ${change.migration}` : change.description;
+	item.contextValue = change.migration !== undefined ? 'alanModelChangeMigration' : 'alanModelChange';
+
+	const [node, revision] = change.new_node ? [change.new_node, comparison.new_revision] : [change.old_node, comparison.old_revision];
+	item.command = {
+		title: 'Show',
+		command: 'vscode.open',
+		arguments: [revisionUri(comparison.file, revision), { selection: toVSCodeRange(node.name_range), preview: true }]
+	};
+	return item;
+}
+
+/* the Alan Model Diff view: the structural changes between two revisions of a model */
+export class AlanModelDiffProvider implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable {
+	private change_emitter = new vscode.EventEmitter<vscode.TreeItem | undefined>();
+	public readonly onDidChangeTreeData: vscode.Event<vscode.TreeItem | undefined> = this.change_emitter.event;
+	private comparison: ModelComparison | undefined;
+
+	public dispose() {
+		this.change_emitter.dispose();
+	}
+
+	/* compares two revisions of the model of a system of the project at `alan_root` */
+	public async compare(alan_root: string, system?: string) {
+		const comparison = await compareRevisions(alan_root, system);
+		if (!comparison) return;
+
+		this.comparison = comparison;
+		this.change_emitter.fire(undefined);
+		await vscode.commands.executeCommand('setContext', 'hasAlanModelDiff', true);
+		vscode.commands.executeCommand('alanModelDiff.focus').then(undefined, () => undefined); // reveal the view
+
+		const migrations = comparison.changes.filter(change => change.migration !== undefined).length;
+		vscode.window.setStatusBarMessage(`Alan: ${comparison.changes.length} model changes, ${migrations} need migration`, 5000);
+	}
+
+	public getTreeItem(item: vscode.TreeItem): vscode.TreeItem {
+		return item;
+	}
+
+	public getChildren(item?: vscode.TreeItem): vscode.TreeItem[] {
+		const comparison = this.comparison;
+		if (item || !comparison) return [];
+
+		const migrations = comparison.changes.filter(change => change.migration !== undefined).length;
+		const summary = new vscode.TreeItem(`${comparison.old_label} → ${comparison.new_label}`);
+		summary.description = `${comparison.changes.length} changes, ${migrations} need migration`;
+		summary.tooltip = comparison.file;
+		summary.iconPath = new vscode.ThemeIcon('git-compare');
+		summary.command = {
+			title: 'Compare',
+			command: 'vscode.diff',
+			arguments: [
+				revisionUri(comparison.file, comparison.old_revision),
+				revisionUri(comparison.file, comparison.new_revision),
+				`${path.basename(comparison.file)} (${comparison.old_label} ↔ ${comparison.new_label})`
+			]
+		};
+		return [summary].concat(comparison.changes.map(change => changeItem(comparison, change)));
+	}
+}
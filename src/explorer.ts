@@ -0,0 +1,163 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {AlanProject, AlanProjects, findDeployments} from './projects';
+
+const watched_files_glob = '**/{alan,model.lib.link,connections.alan,migrations/*,dist/*}';
+const refresh_delay = 300; // ms
+
+type ItemKind = 'project' | 'group' | 'system' | 'migration' | 'deployment' | 'package';
+
+/*
+	A node of the Alan Projects view. The `resourceUri` of a node is passed as context to the task commands
+	(build, generate migration, package and deploy), so they run for the project or deployment of the node.
+*/
+export class AlanProjectItem extends vscode.TreeItem {
+	public children: AlanProjectItem[] = [];
+
+	constructor(public readonly kind: ItemKind, public readonly project: AlanProject, label: string, resource?: vscode.Uri, collapsible = vscode.TreeItemCollapsibleState.None) {
+		super(label, collapsible);
+		this.resourceUri = resource;
+		this.contextValue = `alan${kind.charAt(0).toUpperCase()}${kind.slice(1)}`;
+	}
+}
+
+function listDirectory(directory: string): fs.Dirent[] {
+	try {
+		return fs.readdirSync(directory, { withFileTypes: true })
+			.sort((a, b) => a.name.localeCompare(b.name));
+	} catch {
+		return [];
+	}
+}
+
+function openCommand(file: string): vscode.Command {
+	return { title: 'Open', command: 'vscode.open', arguments: [vscode.Uri.file(file)] };
+}
+
+function systemItems(project: AlanProject): AlanProjectItem[] {
+	const systems = path.join(project.root, 'systems');
+	return listDirectory(systems)
+		.filter(entry => entry.isDirectory() && fs.existsSync(path.join(systems, entry.name, 'model.lib.link')))
+		.map(entry => {
+			const model_lib = path.join(systems, entry.name, 'model.lib.link');
+			const item = new AlanProjectItem('system', project, entry.name, vscode.Uri.file(model_lib));
+			item.iconPath = new vscode.ThemeIcon('symbol-class');
+			item.tooltip = model_lib;
+			item.command = openCommand(model_lib);
+			return item;
+		});
+}
+
+function migrationItems(project: AlanProject): AlanProjectItem[] {
+	const migrations = path.join(project.root, 'migrations');
+	return listDirectory(migrations)
+		.filter(entry => entry.isDirectory())
+		.map(entry => {
+			const item = new AlanProjectItem('migration', project, entry.name, vscode.Uri.file(path.join(migrations, entry.name)));
+			item.iconPath = new vscode.ThemeIcon('git-merge');
+			return item;
+		});
+}
+
+async function deploymentItems(project: AlanProject): Promise<AlanProjectItem[]> {
+	return (await findDeployments(project.root))
+		.map(deployment => {
+			const file = path.join(deployment, 'connections.alan');
+			const item = new AlanProjectItem('deployment', project, path.basename(deployment), vscode.Uri.file(file));
+			item.iconPath = new vscode.ThemeIcon('server');
+			item.description = path.relative(project.root, path.dirname(deployment)).replace(/\\/g, '/');
+			item.tooltip = file;
+			item.command = openCommand(file);
+			return item;
+		});
+}
+
+function packageItems(project: AlanProject): AlanProjectItem[] {
+	const dist = path.join(project.root, 'dist');
+	return listDirectory(dist)
+		.filter(entry => entry.isFile())
+		.map(entry => {
+			const item = new AlanProjectItem('package', project, entry.name, vscode.Uri.file(path.join(dist, entry.name)));
+			item.iconPath = new vscode.ThemeIcon('package');
+			return item;
+		});
+}
+
+function groupItem(project: AlanProject, label: string, icon: string, children: AlanProjectItem[]): AlanProjectItem {
+	const item = new AlanProjectItem('group', project, label, undefined, vscode.TreeItemCollapsibleState.Collapsed);
+	item.iconPath = new vscode.ThemeIcon(icon);
+	item.description = `${children.length}`;
+	item.children = children;
+	return item;
+}
+
+/* the Alan Projects view: each alan project with its systems, migrations, deployments and packages */
+export class AlanProjectsProvider implements vscode.TreeDataProvider<AlanProjectItem>, vscode.Disposable {
+	private change_emitter = new vscode.EventEmitter<AlanProjectItem | undefined>();
+	public readonly onDidChangeTreeData: vscode.Event<AlanProjectItem | undefined> = this.change_emitter.event;
+	private refresh_timer: NodeJS.Timer | undefined;
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private projects: AlanProjects) {
+		const watcher = vscode.workspace.createFileSystemWatcher(watched_files_glob, false, true, false);
+		this.disposables.push(
+			watcher,
+			this.change_emitter,
+			watcher.onDidCreate(() => this.refresh()),
+			watcher.onDidDelete(() => this.refresh()),
+			projects.onDidChange(() => {
+				this.updateContext();
+				this.refresh();
+			})
+		);
+		projects.ready.then(() => this.updateContext());
+	}
+
+	/* the view is only shown if there are alan projects */
+	private updateContext() {
+		vscode.commands.executeCommand('setContext', 'hasAlanProjects', this.projects.all('alan').length > 0);
+	}
+
+	public dispose() {
+		if (this.refresh_timer) clearTimeout(this.refresh_timer);
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+
+	public refresh() {
+		if (this.refresh_timer) clearTimeout(this.refresh_timer);
+		this.refresh_timer = setTimeout(() => {
+			this.refresh_timer = undefined;
+			this.change_emitter.fire(undefined);
+		}, refresh_delay);
+	}
+
+	public getTreeItem(item: AlanProjectItem): vscode.TreeItem {
+		return item;
+	}
+
+	public async getChildren(item?: AlanProjectItem): Promise<AlanProjectItem[]> {
+		if (!item) {
+			await this.projects.ready;
+			const projects = this.projects.all('alan');
+			return projects.map(project => {
+				const project_item = new AlanProjectItem('project', project, project.name, vscode.Uri.file(path.join(project.root, 'alan')),
+					projects.length === 1 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+				project_item.iconPath = new vscode.ThemeIcon('project');
+				project_item.tooltip = project.root;
+				return project_item;
+			});
+		}
+		if (item.kind === 'project') {
+			return [
+				groupItem(item.project, 'Systems', 'symbol-namespace', systemItems(item.project)),
+				groupItem(item.project, 'Migrations', 'history', migrationItems(item.project)),
+				groupItem(item.project, 'Deployments', 'server-environment', await deploymentItems(item.project)),
+				groupItem(item.project, 'Packages', 'archive', packageItems(item.project))
+			].filter(group => group.children.length > 0);
+		}
+		return item.children;
+	}
+}
@@ -3,24 +3,36 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as tasks from './tasks';
-import {showDefinitions, fuzzyDefinitionSearch} from './search';
-import {AlanSymbolProvider} from './symbols'
-
-function isAlanDeploySupported() : boolean {
-	if (process.env.CONTAINER_NAME && process.env.DEPLOY_HOST && process.env.DEPLOY_PORT) {
-		vscode.commands.executeCommand('setContext', 'isAlanDeploySupported', true);
-		return true;
-	} else {
-		vscode.commands.executeCommand('setContext', 'isAlanDeploySupported', false);
-		return false;
-	}
-}
+import {showDefinitions, definitionSearch} from './search';
+import {AlanSymbolProvider, forgetSyntaxTree} from './symbols'
+import {AlanSymbolIndex, AlanWorkspaceSymbolProvider} from './indexer';
+import {AlanReferenceProvider, AlanRenameProvider} from './references';
+import {AlanCompletionItemProvider} from './completion';
+import {AlanHoverProvider} from './hover';
+import {AlanValidator} from './validation';
+import {AlanFormattingProvider} from './formatter';
+import {AlanSemanticTokensProvider, semantic_tokens_legend} from './semantictokens';
+import {AlanFoldingRangeProvider, AlanSelectionRangeProvider} from './structure';
+import {copyAlanPath, goToAlanPath} from './modelpath';
+import {AlanCodeActionProvider} from './codeactions';
+import {CompilerDiagnostics} from './diagnostics';
+import {TaskRequest, TaskRunner} from './runner';
+import {AlanProjects, ProjectKind} from './projects';
+import {AlanProjectsProvider} from './explorer';
+import {AlanModelDiffProvider, AlanRevisionContentProvider, revision_scheme} from './diffview';
+import {DeploymentProfiles, default_deploy_script} from './deployment';
 
 function pathIsFSPath(inode_path: string): boolean {
 	return inode_path.indexOf(path.sep) !== -1;
 }
 
 function resolveContextFile(context): string | undefined {
+	if (context instanceof vscode.Uri && context.scheme === 'file')
+		return context.fsPath;
+
+	if (context && context.resourceUri instanceof vscode.Uri && context.resourceUri.scheme === 'file') // Alan Projects view
+		return context.resourceUri.fsPath;
+
 	if (context && context._fsPath && pathIsFSPath(context._fsPath))
 		return context._fsPath
 
@@ -30,199 +42,280 @@ function resolveContextFile(context): string | undefined {
 	return undefined;
 }
 
-async function resolveContext(context, root_marker: string) {
-	const active_file = resolveContextFile(context);
+async function resolveContext(context, root_marker: string, project_root?: string) {
+	const active_file = project_root === undefined ? resolveContextFile(context) : undefined;
 	if (active_file) {
 		const active_file_dirname = path.dirname(active_file);
 		return {
 			context: active_file_dirname,
 			root: tasks.resolveRoot(active_file_dirname, root_marker)
 		};
-	} else if (vscode.workspace.workspaceFolders) {
-		const workspace_path = vscode.workspace.workspaceFolders[0].uri.fsPath; //Hmmm..
-		const alan_root = tasks.resolveRoot(workspace_path, root_marker);
+	} else if (project_root !== undefined) {
+		const alan_root = tasks.resolveRoot(project_root, root_marker);
 		return {
 			context: alan_root,
 			root: alan_root
 		};
 	}
+	return Promise.reject(undefined);
 }
-async function resolveContextRoot(context, root_marker: string): Promise<string> {
-	const active_file = resolveContextFile(context);
+async function resolveContextRoot(context, root_marker: string, project_root?: string): Promise<string> {
+	const active_file = project_root === undefined ? resolveContextFile(context) : undefined;
 	if (active_file) {
 		const active_file_dirname = path.dirname(active_file);
 		return tasks.resolveRoot(active_file_dirname, root_marker);
-	} else if (vscode.workspace.workspaceFolders) {
-		const workspace_path = vscode.workspace.workspaceFolders[0].uri.fsPath; //Hmmm..
-		return tasks.resolveRoot(workspace_path, root_marker);
+	} else if (project_root !== undefined) {
+		return tasks.resolveRoot(project_root, root_marker);
 	}
+	return Promise.reject(undefined);
+}
+
+/* the context file if it is the `connections.alan` file of a deployment */
+function connectionsFile(context): string | undefined {
+	const context_file = resolveContextFile(context);
+	return context_file && path.basename(context_file) === 'connections.alan' ? context_file : undefined;
 }
 
 export function deactivate(context: vscode.ExtensionContext) {
 	vscode.commands.executeCommand('setContext', 'isAlanDeploySupported', false);
 }
 export function activate(context: vscode.ExtensionContext) {
-	const diagnostic_collection = vscode.languages.createDiagnosticCollection();
+	const compiler_diagnostics = new CompilerDiagnostics(vscode.languages.createDiagnosticCollection('alan'));
 	const output_channel = vscode.window.createOutputChannel('Alan');
-	const is_alan_deploy_supported: boolean = isAlanDeploySupported();
+	const task_runner = new TaskRunner(output_channel, compiler_diagnostics);
+	const alan_projects = new AlanProjects();
+	const deployment_profiles = new DeploymentProfiles(context.workspaceState);
 	const symbol_provider = new AlanSymbolProvider();
+	const symbol_index = new AlanSymbolIndex();
+	const formatting_provider = new AlanFormattingProvider();
+	const projects_provider = new AlanProjectsProvider(alan_projects);
+	const model_diff_provider = new AlanModelDiffProvider();
+	context.subscriptions.push(compiler_diagnostics, task_runner, alan_projects, deployment_profiles, new tasks.AlanBuildWatcher(task_runner), projects_provider, model_diff_provider, symbol_index, new AlanValidator());
 
 	// pretend to be a definition provider
 	if (vscode.workspace.getConfiguration('alan-definitions').get<boolean>('integrateWithGoToDefinition')) {
 		context.subscriptions.push(vscode.languages.registerDefinitionProvider('alan', {
-			provideDefinition: fuzzyDefinitionSearch
+			provideDefinition: definitionSearch.bind(definitionSearch, symbol_index, alan_projects)
 		}));
 	}
 
 	const alan_resolve_err = "Unable to resolve `alan` tool.";
-	context.subscriptions.push(
-		vscode.commands.registerTextEditorCommand('alan.editor.showDefinitions', showDefinitions),
-
-		vscode.commands.registerCommand('alan.tasks.package', (taskctx) => {
-			const context_file = resolveContextFile(taskctx); // (connections.alan) file determines which deployment to build
-			if (context_file) {
-				tasks.package_deployment(context_file, output_channel, diagnostic_collection);
-			} else {
-				let error = 'Package command failed: context `connections.alan` file could not be resolved.';
-				vscode.window.showErrorMessage(error);
+	/* true if the user has to choose a project: there is no context file, or it is a workspace file outside any project */
+	async function isAmbiguous(context_file: string | undefined, kind: ProjectKind): Promise<boolean> {
+		await alan_projects.ready;
+		if (alan_projects.all(kind).length === 0) return false;
+		if (!context_file) return true;
+		return !alan_projects.projectOf(context_file, kind) && vscode.workspace.getWorkspaceFolder(vscode.Uri.file(context_file)) !== undefined;
+	}
+	async function resolveAlanTask(task: string, taskctx?, project_root?: string): Promise<TaskRequest | undefined> {
+		const context_connections = task === 'package' && project_root === undefined ? connectionsFile(taskctx) : undefined;
+		if (!context_connections && project_root === undefined && await isAmbiguous(resolveContextFile(taskctx), 'alan')) {
+			const project = await alan_projects.pick('alan');
+			if (!project) return undefined;
+			project_root = project.root;
+		}
+		switch (task) {
+			case 'package': {
+				let alan_root: string;
+				try {
+					alan_root = await resolveContextRoot(taskctx, 'alan', project_root);
+				} catch {
+					throw new Error(`Package command failed. ${alan_resolve_err}`);
+				}
+				const deployments = context_connections ? [path.dirname(context_connections)] : await tasks.pickDeployments(alan_root, false);
+				return deployments.length > 0 ? await tasks.package_deployment(deployments[0], alan_root) : undefined;
 			}
-		}),
-		vscode.commands.registerCommand('alan.tasks.generateMigration', async (taskctx) => {
-			try {
-				let alan_context = await resolveContext(taskctx, 'alan');
-				tasks.generateMigration(await alan_context.context, await alan_context.root, output_channel, diagnostic_collection);
-			} catch {
-				let error = `Generate migration command failed. ${alan_resolve_err}`;
-				vscode.window.showErrorMessage(error);
+			case 'generate migration': {
+				let working_dir: string;
+				let alan_root: string;
+				try {
+					const alan_context = await resolveContext(taskctx, 'alan', project_root);
+					working_dir = await alan_context.context;
+					alan_root = await alan_context.root;
+				} catch {
+					throw new Error(`Generate migration command failed. ${alan_resolve_err}`);
+				}
+				return tasks.generateMigration(working_dir, alan_root);
 			}
-		}),
-		vscode.commands.registerCommand('alan.tasks.build', async (taskctx) => {
-			try {
-				let alan_context = await resolveContext(taskctx, 'alan');
-				tasks.build(await alan_context.context, await alan_context.root, output_channel, diagnostic_collection);
-			} catch {
-				let error = `Build command failed. ${alan_resolve_err}`;
-				vscode.window.showErrorMessage(error);
+			case 'generate migration from commit': {
+				let working_dir: string;
+				let alan_root: string;
+				try {
+					const alan_context = await resolveContext(taskctx, 'alan', project_root);
+					working_dir = await alan_context.context;
+					alan_root = await alan_context.root;
+				} catch {
+					throw new Error(`Generate migration from commit command failed. ${alan_resolve_err}`);
+				}
+				return tasks.generateMigrationFromCommit(working_dir, alan_root);
 			}
-		}),
-		vscode.commands.registerCommand('alan.tasks.fetch', async (taskctx) => {
-			try {
-				let alan_root = await resolveContextRoot(taskctx, 'alan');
-				tasks.fetch(alan_root, output_channel, diagnostic_collection);
-			} catch {
-				let error = `Fetch command failed. ${alan_resolve_err}`;
-				vscode.window.showErrorMessage(error);
+			case 'build':
+				try {
+					let alan_context = await resolveContext(taskctx, 'alan', project_root);
+					return await tasks.build(await alan_context.context, await alan_context.root);
+				} catch {
+					throw new Error(`Build command failed. ${alan_resolve_err}`);
+				}
+			case 'fetch':
+				try {
+					let alan_root = await resolveContextRoot(taskctx, 'alan', project_root);
+					return await tasks.fetch(alan_root);
+				} catch {
+					throw new Error(`Fetch command failed. ${alan_resolve_err}`);
+				}
+			case 'deploy': {
+				const profile = await deployment_profiles.pick();
+				if (!profile) return undefined;
+				let alan_root: string;
+				try {
+					// a profile with its own script only needs an alan project
+					alan_root = await resolveContextRoot(taskctx, profile.script === default_deploy_script ? default_deploy_script : 'alan', project_root);
+				} catch {
+					throw new Error(profile.script === default_deploy_script
+						? 'Deploy command failed. Unable to resolve `deploy.sh` script.'
+						: `Deploy command failed. ${alan_resolve_err}`);
+				}
+				return await tasks.deploy(alan_root, profile, deployment_profiles.history(profile));
 			}
-		}),
-		vscode.commands.registerCommand('alan.tasks.deploy', async (taskctx) => {
+			default:
+				throw new Error(`Unknown Alan task '${task}'.`);
+		}
+	}
+	async function resolveDevTask(task: string, dev_root?: string): Promise<TaskRequest | undefined> {
+		if (dev_root === undefined && await isAmbiguous(resolveContextFile(undefined), 'dev')) {
+			const project = await alan_projects.pick('dev');
+			if (!project) return undefined;
+			dev_root = project.root;
+		}
+		try {
+			const root = await resolveContextRoot(undefined, 'project.json', dev_root);
+			switch (task) {
+				case 'fetch': return await tasks.bootstrapDev(root);
+				case 'build': return await tasks.buildDev(root);
+				case 'test': return await tasks.testDev(root);
+			}
+		} catch {
+			throw new Error(`Dev ${task} command failed. Unable to resolve \`project.json\`.`);
+		}
+		throw new Error(`Unknown Alan task '${task}'.`);
+	}
+	/* resolves tasks from the task provider and `tasks.json`, which are either alan or dev/meta project tasks */
+	async function resolveTaskRequest(task: string, project_root?: string): Promise<TaskRequest | undefined> {
+		await alan_projects.ready;
+		let kind: ProjectKind = 'alan';
+		if (project_root !== undefined) {
+			const project = alan_projects.get(project_root);
+			if (project) kind = project.kind;
+		} else {
+			const active_file = resolveContextFile(undefined);
+			const project = active_file ? alan_projects.projectOf(active_file) : await alan_projects.pick();
+			if (!active_file && !project && alan_projects.all().length > 0) return undefined; // no project picked
+			if (project) {
+				kind = project.kind;
+				if (!active_file) project_root = project.root;
+			}
+		}
+		return kind === 'alan' ? resolveAlanTask(task, undefined, project_root) : resolveDevTask(task, project_root);
+	}
+	/* packages the deployment of the context `connections.alan` file, or the deployments of the project that the user picks */
+	async function packageDeployments(taskctx) {
+		if (connectionsFile(taskctx)) {
+			return runTask(resolveAlanTask('package', taskctx));
+		}
+		let project_root: string | undefined;
+		const context_file = resolveContextFile(taskctx);
+		if (await isAmbiguous(context_file, 'alan')) {
+			const project = await alan_projects.pick('alan');
+			if (!project) return;
+			project_root = project.root;
+		}
+		let alan_root: string;
+		try {
+			alan_root = await resolveContextRoot(taskctx, 'alan', project_root);
+		} catch {
+			vscode.window.showErrorMessage(`Package command failed. ${alan_resolve_err}`);
+			return;
+		}
+		for (const deployment of await tasks.pickDeployments(alan_root, true, context_file)) {
+			runTask(tasks.package_deployment(deployment, alan_root));
+		}
+	}
+	async function runTask(request: Promise<TaskRequest | undefined>) {
+		try {
+			const resolved = await request;
+			if (resolved) {
+				return task_runner.run(resolved);
+			}
+		} catch (err) {
+			vscode.window.showErrorMessage(err instanceof Error ? err.message : 'Unable to resolve the Alan task.');
+		}
+	}
+	context.subscriptions.push(
+		vscode.commands.registerTextEditorCommand('alan.editor.showDefinitions', showDefinitions.bind(showDefinitions, symbol_index, alan_projects)),
+		vscode.commands.registerCommand('alan.editor.copyPath', () => copyAlanPath(symbol_provider)),
+		vscode.commands.registerCommand('alan.editor.goToPath', () => goToAlanPath()),
+
+		vscode.commands.registerCommand('alan.tasks.package', taskctx => packageDeployments(taskctx)),
+		vscode.commands.registerCommand('alan.tasks.generateMigration', taskctx => runTask(resolveAlanTask('generate migration', taskctx))),
+		vscode.commands.registerCommand('alan.tasks.generateMigrationFromCommit', taskctx => runTask(resolveAlanTask('generate migration from commit', taskctx))),
+		vscode.commands.registerCommand('alan.tasks.build', taskctx => runTask(resolveAlanTask('build', taskctx))),
+		vscode.commands.registerCommand('alan.tasks.fetch', taskctx => runTask(resolveAlanTask('fetch', taskctx))),
+		vscode.commands.registerCommand('alan.tasks.deploy', taskctx => runTask(resolveAlanTask('deploy', taskctx))),
+		vscode.commands.registerCommand('alan.tasks.showDeployHistory', () => deployment_profiles.showHistory()),
+		vscode.commands.registerCommand('alan.tasks.cancel', () => task_runner.cancel()),
+		vscode.commands.registerCommand('alan.projects.refresh', () => projects_provider.refresh()),
+		vscode.window.registerTreeDataProvider('alanProjects', projects_provider),
+		vscode.commands.registerCommand('alan.models.diff', async (taskctx) => {
+			const context_file = resolveContextFile(taskctx);
+			let alan_root: string;
 			try {
-				let alan_root = await resolveContextRoot(taskctx, 'deploy.sh');
-				tasks.deploy(alan_root, output_channel, diagnostic_collection)
+				if (await isAmbiguous(context_file, 'alan')) {
+					const project = await alan_projects.pick('alan');
+					if (!project) return;
+					alan_root = project.root;
+				} else {
+					alan_root = await resolveContextRoot(taskctx, 'alan');
+				}
 			} catch {
-				let error = 'Deploy command failed. Unable to resolve `deploy.sh` script.';
-				vscode.window.showErrorMessage(error);
+				vscode.window.showErrorMessage(`Compare model command failed. ${alan_resolve_err}`);
+				return;
 			}
+			model_diff_provider.compare(alan_root, context_file && tasks.contextSystem(path.dirname(context_file), alan_root));
 		}),
+		vscode.window.registerTreeDataProvider('alanModelDiff', model_diff_provider),
+		vscode.workspace.registerTextDocumentContentProvider(revision_scheme, new AlanRevisionContentProvider()),
 
-		vscode.commands.registerCommand('alan.dev.tasks.build', tasks.buildDev.bind(tasks.buildDev, output_channel, diagnostic_collection)),
-		vscode.commands.registerCommand('alan.dev.tasks.test', tasks.testDev.bind(tasks.testDev, output_channel, diagnostic_collection)),
+		vscode.commands.registerCommand('alan.dev.tasks.build', () => runTask(resolveDevTask('build'))),
+		vscode.commands.registerCommand('alan.dev.tasks.test', () => runTask(resolveDevTask('test'))),
 
 		vscode.tasks.registerTaskProvider('alan', {
 			provideTasks: async function () {
-				try { // alan projects
-					let alan_root = await resolveContextRoot(undefined, 'alan');
-					return tasks.getTasksList(alan_root, is_alan_deploy_supported);
-				} catch {
-					try { // alan dev/meta projects
-						let alan_root = await resolveContextRoot(undefined, 'project.json');
-						return tasks.getTasksListDev(alan_root);
-					} catch {
-						return [];
-					}
-				}
+				await alan_projects.ready;
+				const projects = alan_projects.all();
+				const qualify = projects.length > 1;
+				return ([] as vscode.Task[]).concat(...projects.map(project => project.kind === 'alan'
+					? tasks.getTasksList(project, qualify, deployment_profiles.isSupported(), task_runner, resolveTaskRequest)
+					: tasks.getTasksListDev(project, qualify, task_runner, resolveTaskRequest)));
 			},
-			resolveTask(task: vscode.Task): vscode.Task | undefined {
-				return undefined;
+			resolveTask: function (task: vscode.Task) {
+				return tasks.resolveTask(task, task_runner, resolveTaskRequest);
 			}
 		}),
 
 		vscode.languages.registerDocumentSymbolProvider({ language: 'alan' }, symbol_provider),
+		vscode.languages.registerWorkspaceSymbolProvider(new AlanWorkspaceSymbolProvider(symbol_index)),
+		vscode.languages.registerReferenceProvider('alan', new AlanReferenceProvider(symbol_index, alan_projects)),
+		vscode.languages.registerRenameProvider('alan', new AlanRenameProvider(symbol_index, alan_projects)),
+		vscode.languages.registerHoverProvider('alan', new AlanHoverProvider(symbol_index)),
+		vscode.languages.registerDocumentFormattingEditProvider('alan', formatting_provider),
+		vscode.languages.registerDocumentRangeFormattingEditProvider('alan', formatting_provider),
+		vscode.languages.registerCodeActionsProvider('alan', new AlanCodeActionProvider(), AlanCodeActionProvider.metadata),
+		vscode.languages.registerFoldingRangeProvider('alan', new AlanFoldingRangeProvider(symbol_provider)),
+		vscode.languages.registerSelectionRangeProvider('alan', new AlanSelectionRangeProvider(symbol_provider)),
+		vscode.languages.registerDocumentSemanticTokensProvider('alan', new AlanSemanticTokensProvider(), semantic_tokens_legend),
+		vscode.workspace.onDidCloseTextDocument(forgetSyntaxTree),
 
-		vscode.languages.registerCompletionItemProvider('alan', {
-			provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken) {
-				const wrange = document.getWordRangeAtPosition(position, /'[^']*'/);
-				if (!wrange)
-					return undefined; //fall back to built-in wordenize; OPT: combine results below with wordenize results
-
-				return symbol_provider.provideDocumentSymbols(document, token).then(symbols => {
-					let result:Map<string, vscode.CompletionItem> = new Map();
-					function flatten(symvs: vscode.DocumentSymbol[]) {
-						symvs.forEach(sym => {
-							function mapSymbolKind2CompletionItemKind(kind: vscode.SymbolKind) {
-								switch (kind) {
-									case vscode.SymbolKind.File:
-										return vscode.CompletionItemKind.File;
-									case vscode.SymbolKind.Module:
-										return vscode.CompletionItemKind.Module;
-									case vscode.SymbolKind.Namespace:
-										return vscode.CompletionItemKind.Module;
-									case vscode.SymbolKind.Class:
-										return vscode.CompletionItemKind.Class;
-									case vscode.SymbolKind.Method:
-										return vscode.CompletionItemKind.Method;
-									case vscode.SymbolKind.Enum:
-										return vscode.CompletionItemKind.Enum;
-									case vscode.SymbolKind.Interface:
-										return vscode.CompletionItemKind.Interface;
-									case vscode.SymbolKind.Function:
-										return vscode.CompletionItemKind.Function;
-									case vscode.SymbolKind.Variable:
-										return vscode.CompletionItemKind.Variable;
-									case vscode.SymbolKind.Constant:
-										return vscode.CompletionItemKind.Constant;
-									case vscode.SymbolKind.String:
-										return vscode.CompletionItemKind.Text;
-									case vscode.SymbolKind.Number:
-										return vscode.CompletionItemKind.Constant;
-									case vscode.SymbolKind.Array:
-										return vscode.CompletionItemKind.Property;
-									case vscode.SymbolKind.Event:
-										return vscode.CompletionItemKind.Event;
-									case vscode.SymbolKind.Operator:
-										return vscode.CompletionItemKind.Operator;
-									case vscode.SymbolKind.TypeParameter:
-										return vscode.CompletionItemKind.TypeParameter;
-									case vscode.SymbolKind.Struct:
-										return vscode.CompletionItemKind.Struct;
-									case vscode.SymbolKind.EnumMember:
-										return vscode.CompletionItemKind.EnumMember;
-									default:
-										return vscode.CompletionItemKind.Struct;
-								}
-							}
-							const existing_citem = result[sym.name];
-							const ckind = mapSymbolKind2CompletionItemKind(sym.kind);
-							if (existing_citem && existing_citem.kind === ckind) {
-								//skip
-							} else if (existing_citem && existing_citem.kind === vscode.CompletionItemKind.Struct) {
-								existing_citem.kind = ckind;
-							} else {
-								let item = new vscode.CompletionItem(sym.name, ckind);
-								item.insertText = `'${sym.name}'`;
-								item.filterText = `'${sym.name}'`;
-								item.detail = sym.detail;
-								item.range = wrange;
-								result.set(sym.name, item);
-							}
-							flatten(sym.children);
-						});
-					}
-
-					flatten(symbols);
-					return Array.from(result.values());
-				});
-			}
-		}, '\'')
+		vscode.languages.registerCompletionItemProvider('alan', new AlanCompletionItemProvider(symbol_index), '\'', '@', '.', '>', '?')
 	);
 
 	const fetch_statusbar_item: vscode.StatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 3);
@@ -235,13 +328,14 @@ export function activate(context: vscode.ExtensionContext) {
 	build_statusbar_item.command = 'alan.tasks.build';
 	build_statusbar_item.text = 'Alan Build';
 	build_statusbar_item.show();
+	task_runner.setStatusBarItem('build', build_statusbar_item, 'Alan Build');
 	context.subscriptions.push(build_statusbar_item);
 
-	if (is_alan_deploy_supported) {
-		let deploy_statusbar_item: vscode.StatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 2);
-		deploy_statusbar_item.command = 'alan.tasks.deploy';
-		deploy_statusbar_item.text = 'Alan Deploy';
-		deploy_statusbar_item.show();
-		context.subscriptions.push(deploy_statusbar_item);
-	}
+	const deploy_statusbar_item: vscode.StatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 2);
+	deploy_statusbar_item.command = 'alan.tasks.deploy';
+	deploy_statusbar_item.text = 'Alan Deploy';
+	const updateDeployStatusBarItem = () => deployment_profiles.isSupported() ? deploy_statusbar_item.show() : deploy_statusbar_item.hide();
+	updateDeployStatusBarItem();
+	task_runner.setStatusBarItem('deploy', deploy_statusbar_item, 'Alan Deploy');
+	context.subscriptions.push(deploy_statusbar_item, deployment_profiles.onDidChange(updateDeployStatusBarItem));
 }
\ No newline at end of file
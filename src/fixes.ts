@@ -0,0 +1,158 @@
+'use strict';
+
+/*
+	Quick fixes for problems about names that don't exist, as reported by `alan build` and by the validator:
+	a misspelled identifier is changed to the closest existing name, a missing property or state is created where
+	the navigation path looks for it, and an undefined numerical type is added to the `numerical-types` section.
+
+	The fixes are text edits on the lines of the document. This module has no dependency on the `vscode` API.
+*/
+
+import {containsPosition, Position, Range, SyntaxNode, SyntaxTree, Token, TokenType} from './parser';
+import {dataContext, identifierRange, isNavigationOperator, locateToken, missingStep, navigationChain, numericalTypes} from './resolver';
+import {diagnosticName} from './output';
+
+export interface TextEdit {
+	range: Range;
+	text: string;
+}
+
+export interface Fix {
+	title: string;
+	edits: TextEdit[];
+	preferred: boolean;
+}
+
+const numerical_types_section = 'numerical-types';
+
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/* the candidate that is most likely meant by the misspelled `name`, if any is close enough */
+function closestName(name: string, candidates: string[]): string | undefined {
+	const max_distance = Math.max(2, Math.floor(name.length / 3));
+	let closest: string | undefined;
+	let closest_distance = Infinity;
+	candidates.forEach(candidate => {
+		if (candidate === name) return;
+		const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+		if (distance <= max_distance && distance < closest_distance) {
+			closest = candidate;
+			closest_distance = distance;
+		}
+	});
+	return closest;
+}
+
+function indentation(lines: string[], line: number): string {
+	return lines[line].match(/^\s*/)[0];
+}
+
+function lineEnd(lines: string[], line: number): Position {
+	return { line: line, character: lines[line].length };
+}
+
+function insertion(position: Position, text: string): TextEdit {
+	return { range: { start: position, end: position }, text: text };
+}
+
+/* the identifier tokens on the lines of `range`, the one at the start of the range first */
+function identifiersIn(tree: SyntaxTree, range: Range, name?: string): Token[] {
+	const at_start = (token: Token) => containsPosition(token.range, range.start) ? 0 : 1;
+	return tree.tokens
+		.filter(token => token.type === TokenType.Identifier && token.range.start.line >= range.start.line && token.range.start.line <= range.end.line
+			&& (name === undefined || token.value === name))
+		.sort((a, b) => at_start(a) - at_start(b));
+}
+
+/* inserts `statement` as the last child of `node`; undefined if `node` has no body to insert into */
+export function insertChild(lines: string[], node: SyntaxNode, statement: string): TextEdit | undefined {
+	const open = node.tokens.find(token => token.type === TokenType.Open && (token.text === '{' || token.text === '('));
+	const close = [...node.tokens].reverse().find(token => token.type === TokenType.Close && (token.text === '}' || token.text === ')'));
+	const last = node.children[node.children.length - 1];
+
+	if (last) {
+		const last_end = last.range.end;
+		if (close && close.range.start.line === last_end.line) {
+			// a body on one line: the new statement and the closing bracket go on lines of their own
+			const indent = indentation(lines, close.range.start.line);
+			const child_indent = open && open.range.start.line === last.range.start.line ? `${indent}\t` : indentation(lines, last.range.start.line);
+			return { range: { start: last_end, end: close.range.start }, text: `\n${child_indent}${statement}\n${indent}` };
+		}
+		return insertion(lineEnd(lines, last_end.line), `\n${indentation(lines, last.range.start.line)}${statement}`);
+	}
+	if (node.kind === 'section' && !open) {
+		return insertion(lineEnd(lines, node.name_range.start.line), `\n${indentation(lines, node.range.start.line)}\t${statement}`);
+	}
+	if (open && close) {
+		const indent = indentation(lines, close.range.start.line);
+		if (close.range.start.line > open.range.start.line) {
+			return insertion({ line: close.range.start.line, character: 0 }, `${indent}\t${statement}\n`);
+		}
+		return { range: { start: open.range.end, end: close.range.start }, text: `\n${indent}\t${statement}\n${indent}` };
+	}
+	return undefined;
+}
+
+function replaceIdentifier(token: Token, name: string): Fix {
+	return { title: `Change to '${name}'`, edits: [{ range: identifierRange(token), text: name }], preferred: true };
+}
+
+/* fixes for an undefined numerical type: the closest defined type, or adding it to `numerical-types` */
+export function numericalTypeFixes(tree: SyntaxTree, lines: string[], message: string, range: Range): Fix[] {
+	const name = diagnosticName(message);
+	if (name === undefined) return [];
+
+	const fixes: Fix[] = [];
+	const defined = numericalTypes(tree).map(type => type.name);
+	const token = identifiersIn(tree, range, name)[0];
+	const closest = closestName(name, defined);
+	if (token && closest) {
+		fixes.push(replaceIdentifier(token, closest));
+	}
+	if (defined.indexOf(name) === -1) {
+		const section = tree.nodes.find(node => node.kind === 'section' && node.name === numerical_types_section);
+		const last_line = lines.length - 1;
+		const edit = section
+			? insertChild(lines, section, `'${name}'`)
+			: insertion(lineEnd(lines, last_line), `${lines[last_line] !== '' ? '\n' : ''}\n${numerical_types_section}\n\t'${name}'\n`);
+		if (edit) fixes.push({ title: `Add numerical type '${name}' to ${numerical_types_section}`, edits: [edit], preferred: false });
+	}
+	return fixes;
+}
+
+/* fixes for an identifier in a navigation path that doesn't exist: the closest existing name, or creating it */
+export function identifierFixes(tree: SyntaxTree, lines: string[], range: Range): Fix[] {
+	for (const token of identifiersIn(tree, range)) {
+		const {statement, index} = locateToken(tree, token);
+		if (!statement || index < 1 || !isNavigationOperator(statement.tokens[index - 1])) continue;
+
+		const missing = missingStep(tree, dataContext(statement), navigationChain(statement.tokens, index));
+		if (!missing || missing.token !== token) continue;
+
+		const fixes: Fix[] = [];
+		const kind = missing.step === '?' ? 'state' : 'property';
+		const siblings = (missing.node ? missing.node.children : tree.nodes)
+			.filter(child => kind === 'state' ? child.kind === 'state' : child.kind !== 'state');
+		const closest = closestName(token.value, siblings.map(child => child.name));
+		if (closest) {
+			fixes.push(replaceIdentifier(token, closest));
+		}
+		if (missing.node) {
+			const edit = insertChild(lines, missing.node, kind === 'state' ? `'${token.value}' -> { }` : `'${token.value}': text`);
+			const parent = missing.node.kind === 'section' ? missing.node.name : `'${missing.node.name}'`;
+			if (edit) fixes.push({ title: `Create ${kind} '${token.value}' in ${parent}`, edits: [edit], preferred: false });
+		}
+		return fixes;
+	}
+	return [];
+}
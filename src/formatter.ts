@@ -0,0 +1,165 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import {parse, walk, SyntaxNode, Token, TokenType} from './parser';
+import {locateToken} from './resolver';
+
+/*
+	Formats Alan documents:
+	- statements are indented one level deeper than the property, state or section they belong to
+	- continuation lines of multi-line statements are indented one level deeper than the statement,
+	  plus one level for each bracket that is still open
+	- `:` is followed by a single space, `->` and `=>` are surrounded by single spaces
+	- sibling statements on consecutive lines are aligned: the types after the `:` of properties,
+	  and the `->` of states
+	- trailing whitespace is removed; comments are kept on their lines
+*/
+
+const spaced_operators: string[] = ['->', '=>', ':=', '~>', '<-'];
+const aligned_operators: string[] = [':', '->'];
+
+export function formatLines(text: string, indent_unit: string = '\t'): string[] {
+	const tree = parse(text);
+	const lines = text.split(/\r?\n/);
+
+	const levels: Map<SyntaxNode, number> = new Map();
+	walk(tree.nodes, node => levels.set(node, node.parent ? levels.get(node.parent) + 1 : 0));
+
+	// bracket depth before each token
+	const depths: Map<Token, number> = new Map();
+	let depth = 0;
+	tree.tokens.forEach(token => {
+		depths.set(token, depth);
+		if (token.type === TokenType.Open) depth++;
+		else if (token.type === TokenType.Close && depth > 0) depth--;
+	});
+
+	// the tokens on each line, comments included
+	const line_tokens: Token[][] = lines.map(() => []);
+	tree.tokens.concat(tree.comments)
+		.sort((a, b) => a.offset - b.offset)
+		.forEach(token => line_tokens[token.range.start.line].push(token));
+
+	// lines inside multi-line block comments are left alone
+	const verbatim: Set<number> = new Set();
+	tree.comments.forEach(comment => {
+		for (let line = comment.range.start.line + 1; line <= comment.range.end.line; line++) {
+			verbatim.add(line);
+		}
+	});
+
+	// the padding to align sibling statements with: after their `:`, or before their `->`
+	const padding: Map<Token, number> = new Map();
+	let run: { parent: SyntaxNode | undefined, name: Token, operator: Token }[] = [];
+	const align = () => {
+		const width = Math.max(...run.map(entry => entry.name.text.length));
+		run.forEach(entry => padding.set(entry.operator, width - entry.name.text.length));
+		run = [];
+	};
+	line_tokens.forEach((tokens, index) => {
+		const [name, operator, next] = tokens;
+		const location = name && name.type === TokenType.Identifier ? locateToken(tree, name) : undefined;
+		const aligned = location !== undefined && location.index === 0 && location.statement.tokens[1] === operator
+			&& aligned_operators.indexOf(operator.text) !== -1 && next !== undefined && next.type !== TokenType.Comment;
+		const previous = run[run.length - 1];
+		if (previous && (!aligned || previous.parent !== location.statement.parent || previous.operator.text !== operator.text
+			|| previous.name.range.start.line !== index - 1)) {
+			align();
+		}
+		if (aligned) {
+			run.push({ parent: location.statement.parent, name: name, operator: operator });
+		}
+	});
+	if (run.length > 0) align();
+
+	function lineIndent(first: Token): number {
+		const location = locateToken(tree, first);
+		const statement = location.statement;
+		if (!statement) {
+			return depths.get(first) - (first.type === TokenType.Close ? 1 : 0);
+		}
+		const level = levels.get(statement);
+		if (location.index === 0) {
+			return level;
+		}
+		const relative = depths.get(first) - depths.get(statement.tokens[0]);
+		if (first.type === TokenType.Close) {
+			return level + relative - 1;
+		}
+		if (first.type === TokenType.Open) {
+			return level + relative;
+		}
+		return level + Math.max(1, relative);
+	}
+
+	const indents: (number | undefined)[] = lines.map((_line, index) => {
+		const first = line_tokens[index].find(token => token.type !== TokenType.Comment);
+		return first ? Math.max(0, lineIndent(first)) : undefined;
+	});
+	// comment-only lines are indented like the next line with code
+	for (let index = lines.length - 1, next = 0; index >= 0; index--) {
+		if (indents[index] === undefined) {
+			indents[index] = next;
+		} else {
+			next = indents[index];
+		}
+	}
+
+	return lines.map((line, index) => {
+		if (verbatim.has(index)) {
+			return line.replace(/\s+$/, '');
+		}
+		const tokens = line_tokens[index];
+		if (tokens.length === 0) {
+			return '';
+		}
+		let result = '';
+		tokens.forEach((token, i) => {
+			if (i > 0) {
+				const previous = tokens[i - 1];
+				let space = line.substring(previous.range.end.character, token.range.start.character);
+				if (previous.type === TokenType.Operator && previous.text === ':' && token.type !== TokenType.Comment) {
+					space = ' '.repeat(1 + (padding.get(previous) || 0));
+				} else if (token.type === TokenType.Operator && token.text === ':' && previous.type === TokenType.Identifier) {
+					space = '';
+				} else if (padding.has(token)) {
+					space = ' '.repeat(1 + padding.get(token));
+				} else if ((previous.type === TokenType.Operator && spaced_operators.indexOf(previous.text) !== -1)
+					|| (token.type === TokenType.Operator && spaced_operators.indexOf(token.text) !== -1)) {
+					space = ' ';
+				}
+				result += space;
+			}
+			result += token.type === TokenType.Comment && token.range.end.line !== index
+				? line.substring(token.range.start.character)
+				: token.text;
+		});
+		return indent_unit.repeat(indents[index]) + result.replace(/\s+$/, '');
+	});
+}
+
+function indentUnit(options: vscode.FormattingOptions): string {
+	return options.insertSpaces ? ' '.repeat(options.tabSize) : '\t';
+}
+
+export class AlanFormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+	private formatRange(document: vscode.TextDocument, first: number, last: number, options: vscode.FormattingOptions): vscode.TextEdit[] {
+		const formatted = formatLines(document.getText(), indentUnit(options));
+		const edits: vscode.TextEdit[] = [];
+		for (let line = first; line <= last && line < formatted.length; line++) {
+			const text_line = document.lineAt(line);
+			if (text_line.text !== formatted[line]) {
+				edits.push(vscode.TextEdit.replace(text_line.range, formatted[line]));
+			}
+		}
+		return edits;
+	}
+
+	public provideDocumentFormattingEdits(document: vscode.TextDocument, options: vscode.FormattingOptions, token: vscode.CancellationToken): vscode.TextEdit[] {
+		return this.formatRange(document, 0, document.lineCount - 1, options);
+	}
+
+	public provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range, options: vscode.FormattingOptions, token: vscode.CancellationToken): vscode.TextEdit[] {
+		return this.formatRange(document, range.start.line, range.end.line, options);
+	}
+}
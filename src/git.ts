@@ -0,0 +1,56 @@
+'use strict';
+
+/*
+	Helpers for running the local `git` executable.
+
+	This module has no dependency on the `vscode` API.
+*/
+
+import * as proc from 'child_process';
+
+export interface Commit {
+	hash: string;
+	short_hash: string;
+	date: string; // yyyy-mm-dd
+	subject: string;
+}
+
+export function git(cwd: string, args: string[]): Promise<string> {
+	return new Promise((resolve, reject) => {
+		proc.execFile('git', args, { cwd: cwd, maxBuffer: 64 * 1024 * 1024 }, (err, stdout, stderr) => {
+			if (err) {
+				reject(new Error(stderr.trim() || err.message));
+			} else {
+				resolve(stdout);
+			}
+		});
+	});
+}
+
+/* the latest `limit` commits that changed `pathspec` (relative to `cwd`), most recent first */
+export async function gitLog(cwd: string, limit: number, pathspec: string = '.'): Promise<Commit[]> {
+	const output = await git(cwd, ['log', `-n${limit}`, '--date=short', '--format=%H%x09%h%x09%ad%x09%s', '--', pathspec]);
+	return output.split('\n')
+		.filter(line => line !== '')
+		.map(line => {
+			const [hash, short_hash, date, ...subject] = line.split('\t');
+			return { hash: hash, short_hash: short_hash, date: date, subject: subject.join('\t') };
+		});
+}
+
+/* the local and remote branches */
+export async function gitBranches(cwd: string): Promise<string[]> {
+	const output = await git(cwd, ['for-each-ref', '--format=%(refname:short)', 'refs/heads', 'refs/remotes']);
+	return output.split('\n').filter(branch => branch !== '' && !branch.endsWith('/HEAD'));
+}
+
+/* the files in `revision` below `cwd`, relative to `cwd` */
+export async function gitFiles(cwd: string, revision: string): Promise<string[]> {
+	const output = await git(cwd, ['ls-tree', '-r', '--name-only', revision, '--', '.']);
+	return output.split('\n').filter(file => file !== '');
+}
+
+/* the contents of `file` (relative to `cwd`) in `revision` */
+export function gitShow(cwd: string, revision: string, file: string): Promise<string> {
+	return git(cwd, ['show', `${revision}:./${file.replace(/\\/g, '/')}`]);
+}
@@ -0,0 +1,99 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {SyntaxNode, TokenType} from './parser';
+import {findToken, resolveIdentifier} from './resolver';
+import {getSyntaxTree} from './symbols';
+import {AlanSymbolIndex, readFile} from './indexer';
+
+const excerpt_lines = 6;
+
+function displayName(node: SyntaxNode): string {
+	return node.kind === 'section' ? node.name : `'${node.name}'`;
+}
+
+export function containingPath(node: SyntaxNode): string {
+	const names: string[] = [];
+	for (let current: SyntaxNode | undefined = node; current; current = current.parent) {
+		names.unshift(displayName(current));
+	}
+	return names.join(' / ');
+}
+
+function signature(node: SyntaxNode): string {
+	let result = displayName(node);
+	if (node.kind === 'state') {
+		result = `state ${result}`;
+	} else if (node.type) {
+		result += `: ${node.type}`;
+	}
+	if (node.key !== undefined) {
+		result += ` ['${node.key}']`;
+	}
+	if (node.numerical_type !== undefined) {
+		result += ` '${node.numerical_type}'`;
+	}
+	return result;
+}
+
+function excerpt(text: string[], node: SyntaxNode): string {
+	const first = node.range.start.line;
+	const last = Math.min(node.range.end.line, first + excerpt_lines - 1, text.length - 1);
+	const lines = text.slice(first, last + 1);
+	if (last < node.range.end.line) {
+		lines.push('\t...');
+	}
+	const indent = lines.reduce((min, line) => line.trim() === '' ? min : Math.min(min, line.length - line.replace(/^\t*/, '').length), Infinity);
+	return lines.map(line => line.substring(indent === Infinity ? 0 : indent)).join('\n');
+}
+
+export class AlanHoverProvider implements vscode.HoverProvider {
+	constructor(private index: AlanSymbolIndex) {}
+
+	/* the file and node that the identifier at `position` refers to, and the lines of that file */
+	private async resolve(document: vscode.TextDocument, position: vscode.Position): Promise<[vscode.Uri, string[], SyntaxNode] | undefined> {
+		const tree = getSyntaxTree(document);
+		const location = findToken(tree, position, TokenType.Identifier);
+		if (!location) return undefined;
+
+		const node = resolveIdentifier(tree, location);
+		if (node) return [document.uri, document.getText().split(/\r?\n/), node];
+
+		await this.index.ready;
+		const candidates = this.index.lookup(location.token.value, path.extname(document.fileName));
+		if (candidates.length !== 1) return undefined;
+
+		// read from disk unless the file is open: opening a document would validate and index it again
+		const uri = candidates[0].uri;
+		const open_document = vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === uri.toString());
+		let text: string;
+		try {
+			text = open_document ? open_document.getText() : await readFile(uri.fsPath);
+		} catch {
+			return undefined;
+		}
+		return [uri, text.split(/\r?\n/), candidates[0].node];
+	}
+
+	public async provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Hover | undefined> {
+		const word_range = document.getWordRangeAtPosition(position, /'[^']*'/);
+		const resolved = await this.resolve(document, position);
+		if (!resolved) return undefined;
+
+		const [node_uri, lines, node] = resolved;
+		const contents = new vscode.MarkdownString();
+		contents.appendCodeblock(signature(node), 'alan');
+		if (node.type === 'stategroup') {
+			const states = node.children.filter(child => child.kind === 'state').map(child => `'${child.name}'`);
+			contents.appendText(`states: ${states.join(', ')}\n\n`); // escaped: names can contain Markdown characters
+		}
+		contents.appendText(containingPath(node));
+		if (node_uri.toString() !== document.uri.toString()) {
+			contents.appendText(` (${vscode.workspace.asRelativePath(node_uri)})`);
+		}
+		contents.appendCodeblock(excerpt(lines, node), 'alan');
+
+		return new vscode.Hover(contents, word_range);
+	}
+}
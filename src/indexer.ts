@@ -0,0 +1,223 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {parse, walk, SyntaxNode, SyntaxTree} from './parser';
+import {getSyntaxTree, symbolKind, toVSCodeRange} from './symbols';
+
+const alan_files_glob = '**/*.{alan,control,grammar,schema}';
+const excluded_files_glob = '{**/node_modules/**,**/.alan/**}'; // `alan fetch` installs libraries and tools in .alan
+const excluded_folders = ['node_modules', '.alan'];
+const update_delay = 300; // ms
+
+export interface IndexedSymbol {
+	uri: vscode.Uri;
+	node: SyntaxNode;
+}
+
+interface IndexedFile {
+	uri: vscode.Uri;
+	tree: SyntaxTree;
+	names: Map<string, SyntaxNode[]>;
+}
+
+export function readFile(file: string): Promise<string> {
+	return new Promise<string>((resolve, reject) => {
+		fs.readFile(file, (err, data) => {
+			if (err) reject(err);
+			else resolve(data.toString());
+		});
+	});
+}
+
+function isExcluded(uri: vscode.Uri): boolean {
+	return vscode.workspace.asRelativePath(uri, false).split(/[\\/]/).some(folder => excluded_folders.indexOf(folder) !== -1);
+}
+
+function isAlanFile(uri: vscode.Uri): boolean {
+	return uri.scheme === 'file' && ['.alan', '.control', '.grammar', '.schema'].indexOf(path.extname(uri.fsPath)) !== -1 && !isExcluded(uri);
+}
+
+/*
+	In-memory index of the symbols defined in all Alan files of the workspace.
+	Open documents are indexed from their (possibly unsaved) contents, other files from disk.
+*/
+export class AlanSymbolIndex implements vscode.Disposable {
+	private files: Map<string, IndexedFile> = new Map();
+	private pending_updates: Map<string, NodeJS.Timer> = new Map();
+	private disposables: vscode.Disposable[] = [];
+	public readonly ready: Promise<void>;
+
+	constructor() {
+		const watcher = vscode.workspace.createFileSystemWatcher(alan_files_glob);
+		this.disposables.push(
+			watcher,
+			watcher.onDidCreate(uri => this.updateFromDisk(uri)),
+			watcher.onDidChange(uri => this.updateFromDisk(uri)),
+			watcher.onDidDelete(uri => this.remove(uri)),
+			vscode.workspace.onDidChangeTextDocument(event => this.scheduleUpdate(event.document)),
+			vscode.workspace.onDidCloseTextDocument(document => this.onDidClose(document)),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuild())
+		);
+		this.ready = this.rebuild();
+	}
+
+	public dispose() {
+		this.pending_updates.forEach(timer => clearTimeout(timer));
+		this.pending_updates.clear();
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.files.clear();
+	}
+
+	private async rebuild(): Promise<void> {
+		const uris = await vscode.workspace.findFiles(alan_files_glob, excluded_files_glob);
+		this.files.clear();
+		for (const uri of uris) {
+			await this.updateFromDisk(uri);
+		}
+	}
+
+	private set(uri: vscode.Uri, tree: SyntaxTree) {
+		const names: Map<string, SyntaxNode[]> = new Map();
+		walk(tree.nodes, node => {
+			if (node.kind === 'section') return;
+			const nodes = names.get(node.name);
+			if (nodes) {
+				nodes.push(node);
+			} else {
+				names.set(node.name, [node]);
+			}
+		});
+		this.files.set(uri.toString(), { uri: uri, tree: tree, names: names });
+	}
+
+	private remove(uri: vscode.Uri) {
+		this.files.delete(uri.toString());
+	}
+
+	private openDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+		return vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString() && !document.isClosed);
+	}
+
+	private async updateFromDisk(uri: vscode.Uri): Promise<void> {
+		if (!isAlanFile(uri)) return;
+
+		const document = this.openDocument(uri);
+		if (document) {
+			return this.update(document);
+		}
+		try {
+			this.set(uri, parse(await readFile(uri.fsPath)));
+		} catch {
+			this.remove(uri);
+		}
+	}
+
+	/* a closed document is indexed from disk again, without its unsaved changes */
+	private onDidClose(document: vscode.TextDocument) {
+		const key = document.uri.toString();
+		const pending = this.pending_updates.get(key);
+		if (pending) {
+			clearTimeout(pending);
+			this.pending_updates.delete(key);
+		}
+		this.updateFromDisk(document.uri);
+	}
+
+	private scheduleUpdate(document: vscode.TextDocument) {
+		if (!isAlanFile(document.uri)) return;
+
+		const key = document.uri.toString();
+		const pending = this.pending_updates.get(key);
+		if (pending) {
+			clearTimeout(pending);
+		}
+		this.pending_updates.set(key, setTimeout(() => {
+			this.pending_updates.delete(key);
+			this.update(document);
+		}, update_delay));
+	}
+
+	/* brings the index up to date with the current contents of `document` */
+	public update(document: vscode.TextDocument) {
+		if (!isAlanFile(document.uri) || document.isClosed) return;
+
+		const tree = getSyntaxTree(document);
+		const indexed = this.files.get(document.uri.toString());
+		if (!indexed || indexed.tree !== tree) {
+			this.set(document.uri, tree);
+		}
+	}
+
+	public getTree(uri: vscode.Uri): SyntaxTree | undefined {
+		const indexed = this.files.get(uri.toString());
+		return indexed ? indexed.tree : undefined;
+	}
+
+	public getUris(extension?: string): vscode.Uri[] {
+		const result: vscode.Uri[] = [];
+		this.files.forEach(indexed => {
+			if (extension === undefined || path.extname(indexed.uri.fsPath) === extension) {
+				result.push(indexed.uri);
+			}
+		});
+		return result;
+	}
+
+	/* all symbols named `name`, optionally limited to files with the given extension */
+	public lookup(name: string, extension?: string): IndexedSymbol[] {
+		const result: IndexedSymbol[] = [];
+		this.files.forEach(indexed => {
+			if (extension !== undefined && path.extname(indexed.uri.fsPath) !== extension) return;
+			const nodes = indexed.names.get(name);
+			if (nodes) {
+				nodes.forEach(node => result.push({ uri: indexed.uri, node: node }));
+			}
+		});
+		return result;
+	}
+
+	/* all distinct symbol names, optionally limited to files with the given extension */
+	public names(extension?: string): Map<string, SyntaxNode> {
+		const result: Map<string, SyntaxNode> = new Map();
+		this.files.forEach(indexed => {
+			if (extension !== undefined && path.extname(indexed.uri.fsPath) !== extension) return;
+			indexed.names.forEach((nodes, name) => {
+				if (!result.has(name)) {
+					result.set(name, nodes[0]);
+				}
+			});
+		});
+		return result;
+	}
+
+	public query(query: string, limit: number): IndexedSymbol[] {
+		const needle = query.replace(/'/g, '').toLowerCase();
+		const result: IndexedSymbol[] = [];
+		for (const indexed of Array.from(this.files.values())) {
+			for (const [name, nodes] of Array.from(indexed.names.entries())) {
+				if (!name.toLowerCase().includes(needle)) continue;
+				for (const node of nodes) {
+					result.push({ uri: indexed.uri, node: node });
+					if (result.length >= limit) return result;
+				}
+			}
+		}
+		return result;
+	}
+}
+
+export class AlanWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+	constructor(private index: AlanSymbolIndex) {}
+
+	public async provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
+		await this.index.ready;
+		return this.index.query(query, 1000).map(symbol => new vscode.SymbolInformation(
+			symbol.node.name,
+			symbolKind(symbol.node),
+			symbol.node.parent ? symbol.node.parent.name : '',
+			new vscode.Location(symbol.uri, toVSCodeRange(symbol.node.name_range))
+		));
+	}
+}
@@ -0,0 +1,311 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import sanitize from 'sanitize-filename';
+import {Commit, gitBranches, gitFiles, gitLog, gitShow} from './git';
+
+export type MigrationType = 'bootstrap' | 'mapping';
+
+export interface MigrationOptions {
+	name: string;
+	model: string; // the target model.lib.link, relative to `systems/`
+	type: MigrationType;
+}
+
+interface StepItem<T> extends vscode.QuickPickItem {
+	value?: T;
+	error?: string; // items with an error can't be accepted
+}
+
+type StepResult<T> = { value: T } | 'back' | undefined;
+
+interface Wizard {
+	title: string;
+	total_steps: number;
+}
+
+const migration_wizard: Wizard = { title: 'Alan: Generate Migration', total_steps: 4 };
+const commit_migration_wizard: Wizard = { title: 'Alan: Generate Migration from Commit', total_steps: 4 };
+const suggested_commits = 10;
+const listed_commits = 50;
+const from_model = path.join('from', 'application.alan'); // the model to migrate from, in the migration folder
+
+const migration_types: StepItem<MigrationType>[] = [{
+	label: 'initialization from empty dataset',
+	description: '--bootstrap',
+	value: 'bootstrap'
+}, {
+	label: 'mapping from target conformant dataset',
+	value: 'mapping'
+}];
+
+/* shows one step of the wizard; `items` is called again whenever the typed value changes */
+function showStep<T>(wizard: Wizard, step: number, place_holder: string, items: (value: string) => StepItem<T>[], active?: T, value: string = ''): Promise<StepResult<T>> {
+	return new Promise(resolve => {
+		const pick = vscode.window.createQuickPick<StepItem<T>>();
+		pick.title = wizard.title;
+		pick.step = step;
+		pick.totalSteps = wizard.total_steps;
+		pick.placeholder = place_holder;
+		pick.ignoreFocusOut = true;
+		pick.buttons = step > 1 ? [vscode.QuickInputButtons.Back] : [];
+		pick.value = value;
+
+		const update = () => {
+			pick.items = items(pick.value);
+			const active_item = pick.items.find(item => active !== undefined && item.value === active);
+			if (active_item) pick.activeItems = [active_item];
+		};
+		update();
+
+		let result: StepResult<T>;
+		const disposables = [
+			pick.onDidChangeValue(update),
+			pick.onDidTriggerButton(button => {
+				if (button === vscode.QuickInputButtons.Back) {
+					result = 'back';
+					pick.hide();
+				}
+			}),
+			pick.onDidAccept(() => {
+				const item = pick.activeItems[0];
+				if (!item || item.error !== undefined || item.value === undefined) return;
+				result = { value: item.value };
+				pick.hide();
+			}),
+			pick.onDidHide(() => {
+				disposables.forEach(disposable => disposable.dispose());
+				pick.dispose();
+				resolve(result);
+			})
+		];
+		pick.show();
+	});
+}
+
+function nameError(alan_root: string, name: string): string | undefined {
+	if (name.trim() === '') {
+		return 'Enter a name for the migration.';
+	}
+	if (sanitize(name) !== name || /\s/.test(name)) {
+		return 'The name can\'t contain spaces or characters that aren\'t allowed in file names.';
+	}
+	if (fs.existsSync(path.join(alan_root, 'migrations', name))) {
+		return `A migration named '${name}' already exists.`;
+	}
+	return undefined;
+}
+
+function nameItem(alan_root: string, name: string, description?: string): StepItem<string> {
+	const error = nameError(alan_root, name);
+	return {
+		label: name,
+		description: description,
+		detail: error !== undefined ? `$(error) ${error}` : `migrations/${name}`,
+		value: name,
+		error: error,
+		alwaysShow: error !== undefined
+	};
+}
+
+/* the model.lib.link files of the systems of a project, relative to `systems/` */
+export function migrationModels(alan_root: string): string[] {
+	try {
+		return fs.readdirSync(path.join(alan_root, 'systems'))
+			.map(system => path.join(system, 'model.lib.link'))
+			.filter(model_lib => fs.existsSync(path.join(alan_root, 'systems', model_lib)));
+	} catch {
+		return [];
+	}
+}
+
+function modelItems(models: string[]): StepItem<string>[] {
+	return models.length > 0
+		? models.map(model_lib => ({ label: path.dirname(model_lib), description: `systems/${model_lib}`, value: model_lib }))
+		: [{ label: 'No systems with a model.lib.link found', error: 'no systems' }];
+}
+
+/*
+	Asks for the name, target model and type of a new migration, with back navigation and a preview of the migration folder.
+	Migration names are suggested from the git history of the project: `from_<commit>` names the model the migration maps from.
+	`system` is the system to preselect as target model, if any. Resolves to undefined if the wizard is cancelled.
+*/
+export async function migrationWizard(alan_root: string, system?: string): Promise<MigrationOptions | undefined> {
+	const commits = await gitLog(alan_root, suggested_commits).catch((): Commit[] => []); // not a git repository
+	const suggestions: [string, string][] = [['from_empty', 'initialization without a previous model'] as [string, string]]
+		.concat(commits.map(commit => [`from_${commit.short_hash}`, `${commit.date} ${commit.subject}`] as [string, string]));
+	const models = migrationModels(alan_root);
+
+	let name: string | undefined;
+	let model: string | undefined = system === undefined ? undefined : models.find(model_lib => path.dirname(model_lib) === system);
+	let type: MigrationType | undefined;
+
+	let step = 1;
+	while (step <= migration_wizard.total_steps) {
+		let result: StepResult<string | MigrationType | boolean>;
+		switch (step) {
+			case 1: {
+				const name_result = await showStep<string>(migration_wizard, step, 'migration name, for example: from_<git commit id of \'from\' model>', value => {
+					const items = suggestions.map(([suggestion, description]) => nameItem(alan_root, suggestion, description));
+					if (value !== '' && !suggestions.some(([suggestion]) => suggestion === value)) {
+						items.unshift(nameItem(alan_root, value));
+					}
+					return items;
+				}, name, name);
+				if (name_result && name_result !== 'back') name = name_result.value;
+				result = name_result;
+				break;
+			}
+			case 2: {
+				const model_result = await showStep<string>(migration_wizard, step, 'migration target model', () => modelItems(models), model);
+				if (model_result && model_result !== 'back') model = model_result.value;
+				result = model_result;
+				break;
+			}
+			case 3: {
+				const type_result = await showStep<MigrationType>(migration_wizard, step, 'migration type', () => migration_types,
+					type || (name === 'from_empty' ? 'bootstrap' : 'mapping'));
+				if (type_result && type_result !== 'back') type = type_result.value;
+				result = type_result;
+				break;
+			}
+			case 4: {
+				const type_item = migration_types.find(item => item.value === type);
+				result = await showStep<boolean>(migration_wizard, step, `generate migrations/${name}?`, () => [{
+					label: '$(check) Generate migration',
+					description: `migrations/${name}`,
+					detail: `target model: systems/${model}, ${type_item.label}`,
+					value: true
+				}]);
+				break;
+			}
+		}
+		if (result === undefined) return undefined;
+		step = result === 'back' ? step - 1 : step + 1;
+	}
+	return { name: name, model: model, type: type };
+}
+
+/*
+	Asks for a commit or branch, the `application.alan` file in that revision, the target model and the name of a new
+	mapping migration, and extracts the model of that revision into the migration folder as the model to migrate from.
+	Resolves to undefined if the wizard is cancelled.
+*/
+export async function migrationFromCommit(alan_root: string, system?: string): Promise<MigrationOptions | undefined> {
+	let branches: string[];
+	let commits: Commit[];
+	try {
+		[branches, commits] = await Promise.all([gitBranches(alan_root), gitLog(alan_root, listed_commits)]);
+	} catch (err) {
+		vscode.window.showErrorMessage(`Unable to read the git history of '${alan_root}': ${err instanceof Error ? err.message : err}`);
+		return undefined;
+	}
+	const models = migrationModels(alan_root);
+	const revision_items: StepItem<string>[] = branches.map(branch => ({ label: `$(git-branch) ${branch}`, value: branch }))
+		.concat(commits.map(commit => ({ label: `$(git-commit) ${commit.short_hash}`, description: commit.date, detail: commit.subject, value: commit.hash })));
+
+	let revision: string | undefined;
+	let source: string | undefined;
+	let sources: string[] = [];
+	let model: string | undefined = system === undefined ? undefined : models.find(model_lib => path.dirname(model_lib) === system);
+	let name: string | undefined;
+
+	let step = 1;
+	while (step <= commit_migration_wizard.total_steps) {
+		let result: StepResult<string>;
+		switch (step) {
+			case 1:
+				result = await showStep(commit_migration_wizard, step, 'commit or branch of the model to migrate from', () => revision_items, revision);
+				if (result && result !== 'back' && result.value !== revision) {
+					revision = result.value;
+					sources = (await gitFiles(alan_root, revision).catch((): string[] => []))
+						.filter(file => path.basename(file) === 'application.alan' && !file.startsWith('migrations/'));
+					source = sources.length === 1 ? sources[0] : undefined;
+					name = undefined;
+				}
+				break;
+			case 2:
+				result = await showStep(commit_migration_wizard, step, `application.alan in ${revisionLabel(revision, commits)}`, () => sources.length > 0
+					? sources.map(file => ({ label: file, value: file }))
+					: [{ label: `No application.alan found in ${revisionLabel(revision, commits)}`, error: 'no model' }], source);
+				if (result && result !== 'back') source = result.value;
+				break;
+			case 3:
+				result = await showStep(commit_migration_wizard, step, 'migration target model', () => modelItems(models), model);
+				if (result && result !== 'back') model = result.value;
+				break;
+			case 4: {
+				const suggestion = `from_${sanitize(revisionLabel(revision, commits).replace(/[\s/]+/g, '_'))}`;
+				result = await showStep(commit_migration_wizard, step, 'migration name', value => {
+					const items = [nameItem(alan_root, suggestion, `migrations/${suggestion}/${from_model.replace(/\\/g, '/')}`)];
+					if (value !== '' && value !== suggestion) {
+						items.unshift(nameItem(alan_root, value));
+					}
+					return items;
+				}, name, name);
+				if (result && result !== 'back') name = result.value;
+				break;
+			}
+		}
+		if (result === undefined) return undefined;
+		step = result === 'back' ? step - 1 : step + 1;
+	}
+
+	const from_model_file = path.join(alan_root, 'migrations', name, from_model);
+	try {
+		const contents = await gitShow(alan_root, revision, source);
+		fs.mkdirSync(path.dirname(from_model_file), { recursive: true });
+		fs.writeFileSync(from_model_file, contents);
+	} catch (err) {
+		vscode.window.showErrorMessage(`Unable to extract '${source}' from ${revisionLabel(revision, commits)}: ${err instanceof Error ? err.message : err}`);
+		discardMigration(alan_root, name);
+		return undefined;
+	}
+	return { name: name, model: model, type: 'mapping' };
+}
+
+function removeFolder(folder: string) {
+	fs.readdirSync(folder, { withFileTypes: true }).forEach(entry => {
+		const entry_path = path.join(folder, entry.name);
+		if (entry.isDirectory()) {
+			removeFolder(entry_path);
+		} else {
+			fs.unlinkSync(entry_path);
+		}
+	});
+	fs.rmdirSync(folder);
+}
+
+/* removes the folder of a migration from `migrationFromCommit` that wasn't generated, so that its name can be used again */
+export function discardMigration(alan_root: string, name: string) {
+	const folder = path.join(alan_root, 'migrations', name);
+	try {
+		if (fs.existsSync(folder)) removeFolder(folder);
+	} catch (err) {
+		vscode.window.showErrorMessage(`Unable to remove 'migrations/${name}': ${err instanceof Error ? err.message : err}`);
+	}
+}
+
+/* the short hash of a commit, or the name of a branch */
+function revisionLabel(revision: string, commits: Commit[]): string {
+	const commit = commits.find(commit => commit.hash === revision);
+	return commit ? commit.short_hash : revision;
+}
+
+/* offers to open the `from_*` mapping files of a generated migration */
+export async function offerMappingFiles(migration_folder: string) {
+	const mapping_files = await vscode.workspace.findFiles(new vscode.RelativePattern(migration_folder, '**/from_*'));
+	const name = path.basename(migration_folder);
+	if (mapping_files.length === 0) {
+		vscode.window.showInformationMessage(`Generated migration '${name}'.`);
+		return;
+	}
+	const open = 'Open Mapping Files';
+	if (await vscode.window.showInformationMessage(`Generated migration '${name}'.`, open) === open) {
+		for (const uri of mapping_files) {
+			await vscode.window.showTextDocument(uri, { preview: false });
+		}
+	}
+}
@@ -0,0 +1,158 @@
+'use strict';
+
+/*
+	Structural comparison of two versions of an Alan model.
+
+	Statements are matched by their path of names (section, properties and states). Changes are reported on the
+	outermost statement that changed: the children of an added or removed property are not listed separately.
+	Changes to the data in `root` that existing data has to be migrated for are flagged with a reason.
+
+	This module has no dependency on the `vscode` API.
+*/
+
+import {NodeKind, SyntaxNode, SyntaxTree, TokenType} from './parser';
+
+export type ChangeKind = 'added' | 'removed' | 'retyped' | 'changed';
+
+export interface ModelChange {
+	kind: ChangeKind;
+	node_kind: NodeKind;
+	path: string[];       // the names of the section, properties and states containing the statement, and its own name
+	description: string;  // what changed, e.g. "text -> collection ['Key']"
+	migration?: string;   // why the change needs migration work, if it does
+	old_node?: SyntaxNode;
+	new_node?: SyntaxNode;
+}
+
+const data_section = 'root';
+
+function nodeKey(node: SyntaxNode): string {
+	return `${node.kind}:${node.name}`;
+}
+
+function isDerivation(node: SyntaxNode): boolean {
+	return node.tokens.some(token => token.type === TokenType.Operator && token.text === '=');
+}
+
+/* derived properties and states are computed from other data, so they don't need to be migrated */
+function isDerived(node: SyntaxNode): boolean {
+	if (isDerivation(node)) return true;
+	if (node.kind === 'property' && node.type === 'stategroup') {
+		return node.children.some(isDerivation);
+	}
+	if (node.kind === 'state' && node.parent) {
+		return node.parent.children.some(isDerivation);
+	}
+	return false;
+}
+
+/* the data type of a property: its type with the collection key or numerical type */
+export function typeSignature(node: SyntaxNode): string {
+	if (node.type === undefined) return node.kind;
+	let signature = node.type;
+	if (node.key !== undefined) signature += ` ['${node.key}']`;
+	if (node.numerical_type !== undefined) signature += ` '${node.numerical_type}'`;
+	return isDerived(node) ? `${signature} (derived)` : signature;
+}
+
+function describe(node: SyntaxNode): string {
+	return node.type === undefined ? node.kind : `${node.kind} (${typeSignature(node)})`;
+}
+
+function isData(path: string[], node: SyntaxNode): boolean {
+	return path[0] === data_section && (node.kind === 'property' || node.kind === 'state') && node.type !== 'command' && !isDerived(node);
+}
+
+function compareChildren(old_nodes: SyntaxNode[], new_nodes: SyntaxNode[], path: string[], changes: ModelChange[]) {
+	const old_by_key: Map<string, SyntaxNode> = new Map();
+	old_nodes.forEach(node => {
+		if (!old_by_key.has(nodeKey(node))) old_by_key.set(nodeKey(node), node);
+	});
+	const new_keys: Set<string> = new Set(new_nodes.map(nodeKey));
+
+	old_nodes.forEach(old_node => {
+		if (new_keys.has(nodeKey(old_node)) || old_by_key.get(nodeKey(old_node)) !== old_node) return;
+		const node_path = path.concat(old_node.name);
+		changes.push({
+			kind: 'removed',
+			node_kind: old_node.kind,
+			path: node_path,
+			description: `removed ${describe(old_node)}`,
+			migration: !isData(node_path, old_node) ? undefined : old_node.kind === 'state'
+				? 'data in this state has to be mapped to another state'
+				: 'existing data of this property is dropped',
+			old_node: old_node
+		});
+	});
+
+	const seen: Set<string> = new Set();
+	new_nodes.forEach(new_node => {
+		const key = nodeKey(new_node);
+		if (seen.has(key)) return;
+		seen.add(key);
+
+		const node_path = path.concat(new_node.name);
+		const old_node = old_by_key.get(key);
+		if (!old_node) {
+			changes.push({
+				kind: 'added',
+				node_kind: new_node.kind,
+				path: node_path,
+				description: `added ${describe(new_node)}`,
+				migration: isData(node_path, new_node) && new_node.kind === 'property' ? 'new data has to be initialized' : undefined,
+				new_node: new_node
+			});
+			return;
+		}
+		compareNodes(old_node, new_node, node_path, changes);
+	});
+}
+
+function compareNodes(old_node: SyntaxNode, new_node: SyntaxNode, path: string[], changes: ModelChange[]) {
+	const old_signature = typeSignature(old_node);
+	const new_signature = typeSignature(new_node);
+	const needs_migration = isData(path, old_node) || isData(path, new_node);
+
+	if (old_node.type !== new_node.type) {
+		changes.push({
+			kind: 'retyped',
+			node_kind: new_node.kind,
+			path: path,
+			description: `${old_signature} -> ${new_signature}`,
+			migration: needs_migration && isData(path, new_node) ? 'existing data has to be converted to the new type' : undefined,
+			old_node: old_node,
+			new_node: new_node
+		});
+		return; // the children of properties of different types can't be compared
+	}
+	if (old_signature !== new_signature) {
+		let migration: string | undefined;
+		if (needs_migration && isData(path, new_node)) {
+			migration = old_node.key !== new_node.key ? 'entries have to be keyed by the new key property'
+				: old_node.numerical_type !== new_node.numerical_type ? 'values have to be converted to the new numerical type'
+				: 'values have to be initialized instead of derived';
+		}
+		changes.push({
+			kind: 'changed',
+			node_kind: new_node.kind,
+			path: path,
+			description: `${old_signature} -> ${new_signature}`,
+			migration: migration,
+			old_node: old_node,
+			new_node: new_node
+		});
+	}
+	compareChildren(old_node.children, new_node.children, path, changes);
+}
+
+/* the changes from `old_tree` to `new_tree` in the order of the new model, with removed statements first on each level */
+export function diffModels(old_tree: SyntaxTree, new_tree: SyntaxTree): ModelChange[] {
+	const changes: ModelChange[] = [];
+	compareChildren(old_tree.nodes, new_tree.nodes, [], changes);
+	return changes;
+}
+
+/* the path of a change as shown to the user, e.g. "root / 'Orders' / 'Lines'" */
+export function changePath(change: ModelChange): string {
+	return change.path.map((name, index) => index === 0 ? name : `'${name}'`).join(' / ');
+}
@@ -0,0 +1,131 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import {tokenize, ParseError, SyntaxNode, SyntaxTree, TokenType} from './parser';
+import {findChild} from './resolver';
+import {AlanDocumentSymbol, AlanSymbolProvider, getSyntaxTree, toVSCodeRange} from './symbols';
+
+const data_section = 'root';
+
+interface PathStep {
+	name: string;
+	kind: 'property' | 'state';
+}
+
+interface ModelPath {
+	section: string;
+	steps: PathStep[];
+}
+
+/* the innermost symbol of the outline at `position` */
+function symbolAt(symbols: AlanDocumentSymbol[], position: vscode.Position): AlanDocumentSymbol | undefined {
+	const symbol = symbols.find(candidate => candidate.range.contains(position));
+	if (!symbol) return undefined;
+	return symbolAt(symbol.children as AlanDocumentSymbol[], position) || symbol;
+}
+
+/*
+	The path of `symbol` in Alan navigation syntax, e.g. `.'Orders'* .'Status'?'Closed' .'Date'`: collections on the way
+	are followed by `*`, states by `?`. Paths in `root` leave out the section; other paths start with the section name.
+*/
+export function symbolPath(symbol: AlanDocumentSymbol): string {
+	const chain: AlanDocumentSymbol[] = [];
+	for (let current: AlanDocumentSymbol | undefined = symbol; current; current = current.parent) {
+		chain.unshift(current);
+	}
+	let result = chain[0].node && chain[0].node.kind === 'section' && chain[0].name !== data_section ? chain[0].name : '';
+	chain.slice(1).forEach((step, index) => {
+		const node: SyntaxNode | undefined = step.node;
+		const last = index === chain.length - 2;
+		if (node && node.kind === 'state') {
+			result += `?'${step.name}'`;
+		} else {
+			result += `${result === '' ? '' : ' '}${node && node.kind === 'entry' ? '' : '.'}'${step.name}'`;
+			if (!last && node && node.type === 'collection') result += '*';
+		}
+	});
+	return result || chain[0].name;
+}
+
+function parsePath(text: string): ModelPath | string {
+	const errors: ParseError[] = [];
+	const tokens = tokenize(text.trim(), errors);
+	if (errors.length > 0) return errors[0].message;
+
+	const path: ModelPath = { section: data_section, steps: [] };
+	let operator = '';
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		if (token.type === TokenType.Keyword && i === 0) {
+			path.section = token.text;
+		} else if (token.type === TokenType.Operator && /^[.>?*]+$/.test(token.text)) {
+			operator = token.text;
+		} else if (token.type === TokenType.Identifier) {
+			path.steps.push({ name: token.value, kind: operator.endsWith('?') ? 'state' : 'property' });
+			operator = '';
+		} else {
+			return `Unexpected '${token.text}': use steps like .'Orders'* .'Status'?'Closed'`;
+		}
+	}
+	return path;
+}
+
+/* the node at `path` in `tree`, or an error that names the first step that doesn't exist */
+function resolvePath(tree: SyntaxTree, text: string): SyntaxNode | string {
+	const path = parsePath(text);
+	if (typeof path === 'string') return path;
+
+	let node = tree.nodes.find(candidate => candidate.kind === 'section' && candidate.name === path.section);
+	if (!node) return `There is no section '${path.section}'.`;
+	for (const step of path.steps) {
+		const child = findChild(tree, node, step.name, step.kind);
+		if (!child) return `There is no ${step.kind} '${step.name}' in ${node.kind === 'section' ? node.name : `'${node.name}'`}.`;
+		node = child;
+	}
+	return node;
+}
+
+/* copies the model path of the statement at the cursor to the clipboard */
+export async function copyAlanPath(symbol_provider: AlanSymbolProvider) {
+	const editor = vscode.window.activeTextEditor;
+	if (!editor || editor.document.languageId !== 'alan') return;
+
+	const symbol = symbolAt(symbol_provider.provideTreeSymbols(getSyntaxTree(editor.document)), editor.selection.active);
+	if (!symbol) {
+		vscode.window.showInformationMessage('There is no property or state at the cursor.');
+		return;
+	}
+	const path = symbolPath(symbol);
+	await vscode.env.clipboard.writeText(path);
+	vscode.window.setStatusBarMessage(`Copied ${path}`, 3000);
+}
+
+/* asks for a model path, e.g. one copied with `copyAlanPath`, and reveals the statement it names */
+export async function goToAlanPath() {
+	const editor = vscode.window.activeTextEditor;
+	if (!editor || editor.document.languageId !== 'alan') {
+		vscode.window.showErrorMessage('Open the Alan file to go to a model path in.');
+		return;
+	}
+	const document = editor.document;
+	const clipboard = (await vscode.env.clipboard.readText()).trim();
+	const text = await vscode.window.showInputBox({
+		prompt: 'model path, e.g. .\'Orders\'* .\'Lines\'',
+		value: typeof resolvePath(getSyntaxTree(document), clipboard) === 'string' ? '' : clipboard,
+		validateInput: value => {
+			if (value.trim() === '') return undefined;
+			const node = resolvePath(getSyntaxTree(document), value);
+			return typeof node === 'string' ? node : undefined;
+		}
+	});
+	if (!text) return;
+
+	const node = resolvePath(getSyntaxTree(document), text);
+	if (typeof node === 'string') {
+		vscode.window.showErrorMessage(node);
+		return;
+	}
+	const range = toVSCodeRange(node.name_range);
+	editor.selection = new vscode.Selection(range.start, range.end);
+	editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
@@ -0,0 +1,55 @@
+'use strict';
+
+/*
+	Finds the occurrences of a 'quoted' identifier in the Alan files of a project, for references and rename.
+
+	This module has no dependency on the `vscode` API.
+*/
+
+import * as path from 'path';
+import {SyntaxNode, SyntaxTree, Token, TokenType} from './parser';
+import {isStatementName, locateToken, resolveIdentifier, TokenLocation} from './resolver';
+
+export interface SourceFile {
+	file: string;
+	tree: SyntaxTree;
+}
+
+export interface Occurrence {
+	file: string;
+	token: Token;
+}
+
+export function isInside(file: string, directory: string): boolean {
+	const relative = path.relative(directory, file);
+	return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/*
+	All occurrences of the identifier at `location` in `document` and in those of `files` that are inside `root`;
+	in all `files` if the document isn't part of a project. Occurrences in `document` that resolve to a different
+	property or state are left out.
+*/
+export function findOccurrences(files: SourceFile[], root: string | undefined, document: SourceFile, location: TokenLocation, include_declaration: boolean): Occurrence[] {
+	const name = location.token.value;
+	const target: SyntaxNode | undefined = resolveIdentifier(document.tree, location);
+	const candidates = [document].concat(files.filter(file => path.relative(file.file, document.file) !== ''
+		&& (root === undefined || isInside(file.file, root))));
+
+	const result: Occurrence[] = [];
+	candidates.forEach(({file, tree}) => {
+		tree.tokens.forEach(token => {
+			if (token.type !== TokenType.Identifier || token.value !== name) return;
+
+			const token_location = locateToken(tree, token);
+			if (isStatementName(token_location) && !include_declaration) return;
+
+			if (tree === document.tree && target !== undefined) {
+				const resolved = resolveIdentifier(tree, token_location);
+				if (resolved !== undefined && resolved !== target) return;
+			}
+			result.push({ file: file, token: token });
+		});
+	});
+	return result;
+}
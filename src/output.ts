@@ -0,0 +1,158 @@
+'use strict';
+
+/*
+	Parser for the output of `alan build`, `alan fetch` and `alan package`.
+
+	Recognized diagnostic lines (locations are one-based; ` from L:C` and ` at L:C` may also be written as `:L:C`):
+		<file>.alan from L:C to L:C error: <message>
+		<file>.alan at L:C warning: <message>
+		<file>.link[:L:C] error: <message>
+		<file> error: <message>
+		error: <message>
+	Indented lines and location lines that follow a diagnostic are its context; context lines that
+	point to a location become related information.
+
+	This module has no dependency on the `vscode` API.
+*/
+
+import {Range} from './parser';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+/* the kinds of problems that have quick fixes; set as the code of the diagnostic */
+export type DiagnosticCode = 'undefined-numerical-type' | 'unresolved-identifier';
+
+export interface RelatedInformation {
+	file: string;
+	range: Range; // zero-based
+	message: string;
+}
+
+export interface CompilerDiagnostic {
+	file: string | undefined;
+	range: Range; // zero-based
+	severity: Severity;
+	message: string;
+	context: string[];
+	related: RelatedInformation[];
+}
+
+const file_pattern = '((?:\\/|[a-zA-Z]:)[^:]*?)';
+const position_pattern = '(?:(?: from |:)([0-9]+):([0-9]+) to ([0-9]+):([0-9]+)|(?: at |:)([0-9]+):([0-9]+))?';
+const severity_pattern = '(error|warning|info|note)';
+
+const re_diagnostic: RegExp = new RegExp(`^${file_pattern}${position_pattern} ${severity_pattern}: (.*)$`);
+const re_plain_diagnostic: RegExp = new RegExp(`^${severity_pattern}: (.*)$`);
+const re_location: RegExp = new RegExp(`^\\s*(?:at |in |see )?${file_pattern}(?:(?: from |:)([0-9]+):([0-9]+) to ([0-9]+):([0-9]+)|(?: at |:)([0-9]+):([0-9]+))(?::|,)?\\s*(.*)$`);
+
+/*
+	The messages about a name that doesn't exist, as the validator words them; the first group is the name.
+	Compiler messages only get a code if they are worded the same: other `alan build` wordings haven't been checked
+	against its actual output, so they aren't guessed at.
+*/
+const message_codes: [RegExp, DiagnosticCode][] = [
+	[/^Undefined numerical type '([^'\n]+)'\.$/, 'undefined-numerical-type'],
+	[/^Unable to resolve '([^'\n]+)'\.$/, 'unresolved-identifier']
+];
+
+function getSeverity(severity: string): Severity {
+	return severity === 'error' ? 'error' : severity === 'warning' ? 'warning' : 'info';
+}
+
+function toRange(match: RegExpMatchArray, first: number): Range {
+	const value = (index: number) => parseInt(match[first + index], 10) - 1;
+	if (match[first] !== undefined) {
+		return {
+			start: { line: value(0), character: value(1) },
+			end: { line: value(2), character: value(3) }
+		};
+	}
+	if (match[first + 4] !== undefined) {
+		const position = { line: value(4), character: value(5) };
+		return { start: position, end: position };
+	}
+	const start_of_file = { line: 0, character: 0 };
+	return { start: start_of_file, end: start_of_file };
+}
+
+export function parseOutput(output: string): CompilerDiagnostic[] {
+	const diagnostics: CompilerDiagnostic[] = [];
+	let current: CompilerDiagnostic | undefined;
+
+	output.split(/\r?\n/).forEach(line => {
+		const match = line.match(re_diagnostic);
+		if (match) {
+			current = {
+				file: match[1],
+				range: toRange(match, 2),
+				severity: getSeverity(match[8]),
+				message: match[9],
+				context: [],
+				related: []
+			};
+			diagnostics.push(current);
+			return;
+		}
+
+		const plain_match = line.match(re_plain_diagnostic);
+		if (plain_match) {
+			const start_of_file = { line: 0, character: 0 };
+			current = {
+				file: undefined,
+				range: { start: start_of_file, end: start_of_file },
+				severity: getSeverity(plain_match[1]),
+				message: plain_match[2],
+				context: [],
+				related: []
+			};
+			diagnostics.push(current);
+			return;
+		}
+
+		if (!current || line.trim() === '') {
+			current = undefined;
+			return;
+		}
+
+		const location_match = line.match(re_location);
+		if (location_match) {
+			current.context.push(line);
+			current.related.push({
+				file: location_match[1],
+				range: toRange(location_match, 2),
+				message: location_match[8] || current.message
+			});
+		} else if (/^\s/.test(line)) {
+			current.context.push(line);
+		} else {
+			current = undefined;
+		}
+	});
+	return diagnostics;
+}
+
+function matchMessage(message: string): { code: DiagnosticCode, name: string } | undefined {
+	const first_line = message.split('\n')[0];
+	for (const [pattern, code] of message_codes) {
+		const match = first_line.match(pattern);
+		if (match) return { code: code, name: match[1] };
+	}
+	return undefined;
+}
+
+/* recognizes messages about a property, state or numerical type that doesn't exist: `Unable to resolve 'x'.` and `Undefined numerical type 'x'.` */
+export function diagnosticCode(message: string): DiagnosticCode | undefined {
+	const match = matchMessage(message);
+	return match ? match.code : undefined;
+}
+
+/* the name a message recognized by `diagnosticCode` is about */
+export function diagnosticName(message: string): string | undefined {
+	const match = matchMessage(message);
+	return match ? match.name : undefined;
+}
+
+/* the message of `diagnostic` including its context lines, as shown in the Problems view */
+export function fullMessage(diagnostic: CompilerDiagnostic): string {
+	return [diagnostic.message].concat(diagnostic.context).join('\n');
+}
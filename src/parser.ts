@@ -0,0 +1,471 @@
+'use strict';
+
+/*
+	Tokenizer and parser for Alan models (`application.alan` and friends).
+
+	The parser is deliberately forgiving: it never throws, it records problems in `errors` and
+	always produces a tree. Statements are recognized by their first token (a 'quoted' identifier or
+	a bare keyword at the start of a line or block). Children are found through `{ }` and `( )`
+	bodies, and at the top level through indentation below a section keyword (e.g. `numerical-types`).
+
+	This module has no dependency on the `vscode` API.
+*/
+
+export interface Position {
+	line: number;      // zero-based
+	character: number; // zero-based
+}
+export interface Range {
+	start: Position;
+	end: Position;
+}
+
+export enum TokenType {
+	Identifier, // 'quoted'
+	String,     // "double quoted"
+	Keyword,    // bare words, including @annotations
+	Number,
+	Operator,
+	Open,
+	Close,
+	Comment
+}
+
+export interface Token {
+	type: TokenType;
+	text: string;   // source text
+	value: string;  // text without quotes
+	range: Range;
+	offset: number;
+	line_start: boolean;
+	unterminated?: boolean;
+}
+
+export interface ParseError {
+	message: string;
+	range: Range;
+}
+
+export interface BracketPair {
+	open: Token;
+	close?: Token;
+}
+
+export type NodeKind = 'section' | 'property' | 'state' | 'entry';
+
+export interface SyntaxNode {
+	kind: NodeKind;
+	name: string;
+	name_range: Range;
+	range: Range;
+	indent: number;
+	operator?: string;
+	type?: string;
+	key?: string;
+	numerical_type?: string;
+	tokens: Token[]; // tokens of this statement, excluding those of its children
+	children: SyntaxNode[];
+	parent?: SyntaxNode;
+}
+
+export interface SyntaxTree {
+	nodes: SyntaxNode[];
+	tokens: Token[];
+	comments: Token[];
+	pairs: BracketPair[];
+	errors: ParseError[];
+}
+
+export const property_types: string[] = [
+	'command', 'with', 'collection', 'component', 'stategroup', 'group', 'text', 'integer', 'natural', 'file', 'reference-set',
+	//legacy:
+	'number', 'reference', 'matrix', 'densematrix', 'sparsematrix'
+];
+export const numerical_property_types: string[] = ['integer', 'natural', 'number'];
+
+const brackets: {[open: string]: string} = {
+	'{': '}',
+	'(': ')',
+	'[': ']'
+};
+const operator_chars = ':.^$?>-<=~+*%#&|!,/`@;\\';
+
+function isKeywordStart(char: string) {
+	return /[A-Za-z_]/.test(char);
+}
+function isKeywordChar(char: string) {
+	return /[A-Za-z0-9_\-]/.test(char);
+}
+
+export function tokenize(text: string, errors: ParseError[] = []): Token[] {
+	const tokens: Token[] = [];
+	let offset = 0;
+	let line = 0;
+	let line_offset = 0;
+	let line_start = true;
+
+	function position(at: number): Position {
+		return { line: line, character: at - line_offset };
+	}
+	function push(type: TokenType, begin: number, begin_pos: Position, value?: string, unterminated?: boolean) {
+		const token_text = text.substring(begin, offset);
+		const token: Token = {
+			type: type,
+			text: token_text,
+			value: value !== undefined ? value : token_text,
+			range: { start: begin_pos, end: position(offset) },
+			offset: begin,
+			line_start: line_start
+		};
+		if (unterminated) {
+			token.unterminated = true;
+		}
+		tokens.push(token);
+		if (type !== TokenType.Comment) {
+			line_start = false;
+		}
+		return token;
+	}
+	function quoted(quote: string, type: TokenType, description: string) {
+		const begin = offset;
+		const begin_pos = position(offset);
+		let value = '';
+		offset++;
+		while (offset < text.length && text[offset] !== quote && text[offset] !== '\n') {
+			if (text[offset] === '\\' && offset + 1 < text.length && text[offset + 1] !== '\n') {
+				value += text[offset + 1];
+				offset += 2;
+			} else {
+				value += text[offset++];
+			}
+		}
+		if (text[offset] === quote) {
+			offset++;
+			push(type, begin, begin_pos, value);
+		} else {
+			const token = push(type, begin, begin_pos, value, true);
+			errors.push({ message: `Unterminated ${description}.`, range: token.range });
+		}
+	}
+
+	while (offset < text.length) {
+		const char = text[offset];
+		const next = text[offset + 1];
+		if (char === '\n') {
+			offset++;
+			line++;
+			line_offset = offset;
+			line_start = true;
+		} else if (char === ' ' || char === '\t' || char === '\r') {
+			offset++;
+		} else if (char === '/' && next === '/') {
+			const begin = offset;
+			const begin_pos = position(offset);
+			while (offset < text.length && text[offset] !== '\n' && text[offset] !== '\r') offset++;
+			push(TokenType.Comment, begin, begin_pos);
+		} else if (char === '/' && next === '*') {
+			const begin = offset;
+			const begin_pos = position(offset);
+			offset += 2;
+			while (offset < text.length && !(text[offset] === '*' && text[offset + 1] === '/')) {
+				if (text[offset] === '\n') {
+					line++;
+					line_offset = offset + 1;
+				}
+				offset++;
+			}
+			const terminated = offset < text.length;
+			if (terminated) offset += 2;
+			const token = push(TokenType.Comment, begin, begin_pos, undefined, !terminated);
+			if (!terminated) {
+				errors.push({ message: 'Unterminated block comment.', range: token.range });
+			}
+		} else if (char === '\'') {
+			quoted('\'', TokenType.Identifier, 'identifier');
+		} else if (char === '"') {
+			quoted('"', TokenType.String, 'string');
+		} else if (brackets[char] !== undefined) {
+			const begin_pos = position(offset);
+			offset++;
+			push(TokenType.Open, offset - 1, begin_pos);
+		} else if (char === '}' || char === ')' || char === ']') {
+			const begin_pos = position(offset);
+			offset++;
+			push(TokenType.Close, offset - 1, begin_pos);
+		} else if (/[0-9]/.test(char)) {
+			const begin = offset;
+			const begin_pos = position(offset);
+			while (offset < text.length && /[0-9]/.test(text[offset])) offset++;
+			push(TokenType.Number, begin, begin_pos);
+		} else if (isKeywordStart(char) || (char === '@' && next !== undefined && isKeywordStart(next))) {
+			const begin = offset;
+			const begin_pos = position(offset);
+			offset++;
+			while (offset < text.length && isKeywordChar(text[offset])) offset++;
+			push(TokenType.Keyword, begin, begin_pos);
+		} else if (operator_chars.indexOf(char) !== -1) {
+			const begin = offset;
+			const begin_pos = position(offset);
+			offset++;
+			while (offset < text.length && operator_chars.indexOf(text[offset]) !== -1
+				&& !(text[offset] === '/' && (text[offset + 1] === '/' || text[offset + 1] === '*'))
+				&& !(text[offset] === '@' && text[offset + 1] !== undefined && isKeywordStart(text[offset + 1]))) {
+				offset++;
+			}
+			push(TokenType.Operator, begin, begin_pos);
+		} else {
+			const begin_pos = position(offset);
+			offset++;
+			const token = push(TokenType.Operator, offset - 1, begin_pos);
+			errors.push({ message: `Unexpected character '${char}'.`, range: token.range });
+		}
+	}
+	return tokens;
+}
+
+class Parser {
+	private index: number = 0;
+	private expected_closes: string[] = [];
+
+	constructor(private tokens: Token[], private pairs: BracketPair[], private errors: ParseError[]) {}
+
+	public parse(): SyntaxNode[] {
+		const nodes = this.parseBlock(undefined);
+		nodes.forEach(fixRanges);
+		return nodes;
+	}
+
+	private peek(): Token | undefined {
+		return this.tokens[this.index];
+	}
+
+	private parseBlock(owner: SyntaxNode | undefined): SyntaxNode[] {
+		const nodes: SyntaxNode[] = [];
+		const stack: SyntaxNode[] = []; // indentation stack of the current block
+		let current: SyntaxNode | undefined;
+		let block_start = true;
+
+		const in_stategroup = owner !== undefined && owner.type === 'stategroup';
+
+		for (let token = this.peek(); token !== undefined; token = this.peek()) {
+			if (token.type === TokenType.Close) {
+				if (this.expected_closes.indexOf(token.text) !== -1) {
+					return nodes; // the caller matches (or reports) the closing bracket
+				}
+				this.index++;
+				this.errors.push({ message: `Unmatched '${token.text}'.`, range: token.range });
+				continue;
+			}
+
+			if (token.type === TokenType.Open) {
+				const target = current !== undefined ? current : owner;
+				this.parseBrackets(target, token);
+				block_start = token.text === '{'; // e.g. `'A' -> { } 'B' -> { }`
+				continue;
+			}
+
+			const statement_start = ((token.line_start || block_start)
+				&& (token.type === TokenType.Identifier || (token.type === TokenType.Keyword && token.text[0] !== '@')))
+				|| this.isDeclaration(in_stategroup); // e.g. 'B' in `{ 'A': text 'B': text }`
+			block_start = false;
+
+			if (statement_start) {
+				const indent = token.range.start.character;
+				if (current !== undefined && token.line_start && indent > current.indent && current.kind !== 'section'
+					&& !this.isDeclaration(in_stategroup)) {
+					this.consume(current); // continuation of a multi-line statement
+					continue;
+				}
+				if (!token.line_start) {
+					stack.pop(); // a sibling on the same line
+				} else { // only sections have children without brackets
+					while (stack.length > 0 && (stack[stack.length - 1].indent >= indent || stack[stack.length - 1].kind !== 'section')) {
+						stack.pop();
+					}
+				}
+				const parent = stack.length > 0 ? stack[stack.length - 1] : owner;
+				current = this.parseStatementHeader(parent, in_stategroup && stack.length === 0);
+				if (parent !== undefined) {
+					parent.children.push(current);
+				}
+				if (stack.length === 0) {
+					nodes.push(current);
+				}
+				stack.push(current);
+			} else if (current !== undefined) {
+				this.consume(current);
+			} else if (owner !== undefined) {
+				this.consume(owner);
+			} else {
+				this.index++;
+			}
+		}
+		return nodes;
+	}
+
+	/* whether the identifier at the current index starts a property or state, regardless of its indentation */
+	private isDeclaration(in_stategroup: boolean): boolean {
+		const token = this.tokens[this.index];
+		const next = this.tokens[this.index + 1];
+		if (token.type !== TokenType.Identifier || next === undefined || next.line_start || next.type !== TokenType.Operator) {
+			return false;
+		}
+		return next.text === ':' || next.text === ':=' || (in_stategroup && next.text === '->');
+	}
+
+	private consume(node: SyntaxNode) {
+		const token = this.tokens[this.index++];
+		node.tokens.push(token);
+		node.range = { start: node.range.start, end: token.range.end };
+	}
+
+	private parseBrackets(target: SyntaxNode | undefined, open: Token) {
+		const pair: BracketPair = { open: open };
+		this.pairs.push(pair);
+		this.index++;
+		if (target !== undefined) {
+			target.tokens.push(open);
+		}
+		this.expected_closes.push(brackets[open.text]);
+		if (open.text === '[') {
+			for (let token = this.peek(); token !== undefined; token = this.peek()) {
+				if (token.type === TokenType.Close) break;
+				if (token.type === TokenType.Open) {
+					this.parseBrackets(target, token);
+				} else if (target !== undefined) {
+					this.consume(target);
+				} else {
+					this.index++;
+				}
+			}
+		} else {
+			this.parseBlock(target);
+		}
+		this.expected_closes.pop();
+
+		const token = this.peek();
+		if (token !== undefined && token.text === brackets[open.text]) {
+			pair.close = token;
+			this.index++;
+			if (target !== undefined) {
+				target.tokens.push(token);
+				target.range = { start: target.range.start, end: token.range.end };
+			}
+		} else {
+			this.errors.push({ message: `Unclosed '${open.text}'.`, range: open.range });
+		}
+	}
+
+	private parseStatementHeader(parent: SyntaxNode | undefined, is_state: boolean): SyntaxNode {
+		const first = this.tokens[this.index];
+		const node: SyntaxNode = {
+			kind: 'entry',
+			name: first.value,
+			name_range: first.range,
+			range: first.range,
+			indent: first.range.start.character,
+			tokens: [],
+			children: [],
+			parent: parent
+		};
+		this.consume(node);
+
+		if (first.type === TokenType.Keyword) {
+			node.kind = 'section';
+			for (let token = this.peek(); token !== undefined && !token.line_start
+				&& token.type === TokenType.Keyword && token.text[0] !== '@'; token = this.peek()) {
+				node.name += ' ' + token.text;
+				node.name_range = { start: node.name_range.start, end: token.range.end };
+				this.consume(node);
+			}
+			return node;
+		}
+
+		if (!first.unterminated) {
+			node.name_range = {
+				start: { line: first.range.start.line, character: first.range.start.character + 1 },
+				end: { line: first.range.end.line, character: first.range.end.character - 1 }
+			};
+		}
+
+		let token = this.peek();
+		if (token !== undefined && token.type === TokenType.Operator && !token.line_start) {
+			node.operator = token.text;
+			this.consume(node);
+			token = this.peek();
+		}
+		if (token !== undefined && token.type === TokenType.Keyword && property_types.indexOf(token.text) !== -1) {
+			node.type = token.text;
+			this.consume(node);
+			token = this.peek();
+			if (node.type === 'collection' && token !== undefined && token.text === '[') {
+				const key = this.tokens[this.index + 1];
+				if (key !== undefined && key.type === TokenType.Identifier) {
+					node.key = key.value;
+				}
+			} else if (numerical_property_types.indexOf(node.type) !== -1 && token !== undefined && token.type === TokenType.Identifier) {
+				node.numerical_type = token.value;
+			}
+		}
+
+		if (is_state) {
+			node.kind = 'state';
+		} else if (node.type !== undefined || node.operator === ':' || node.operator === ':=') {
+			node.kind = 'property';
+		} else if (node.operator === '->') {
+			node.kind = 'state';
+		}
+		return node;
+	}
+}
+
+function comparePositions(a: Position, b: Position): number {
+	return a.line !== b.line ? a.line - b.line : a.character - b.character;
+}
+
+function fixRanges(node: SyntaxNode) {
+	node.children.forEach(child => {
+		fixRanges(child);
+		if (comparePositions(child.range.end, node.range.end) > 0) {
+			node.range = { start: node.range.start, end: child.range.end };
+		}
+	});
+}
+
+export function parse(text: string): SyntaxTree {
+	const errors: ParseError[] = [];
+	const all_tokens = tokenize(text, errors);
+	const tokens = all_tokens.filter(token => token.type !== TokenType.Comment);
+	const comments = all_tokens.filter(token => token.type === TokenType.Comment);
+	const pairs: BracketPair[] = [];
+	const nodes = new Parser(tokens, pairs, errors).parse();
+
+	return {
+		nodes: nodes,
+		tokens: tokens,
+		comments: comments,
+		pairs: pairs,
+		errors: errors
+	};
+}
+
+export function walk(nodes: SyntaxNode[], callback: (node: SyntaxNode) => void) {
+	nodes.forEach(node => {
+		callback(node);
+		walk(node.children, callback);
+	});
+}
+
+export function findDefinitions(tree: SyntaxTree, name: string): SyntaxNode[] {
+	const result: SyntaxNode[] = [];
+	walk(tree.nodes, node => {
+		if (node.kind !== 'section' && node.name === name) {
+			result.push(node);
+		}
+	});
+	return result;
+}
+
+export function containsPosition(range: Range, position: Position): boolean {
+	return comparePositions(range.start, position) <= 0 && comparePositions(position, range.end) <= 0;
+}
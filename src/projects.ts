@@ -0,0 +1,126 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {isInside} from './occurrences';
+
+const project_markers_glob = '**/{alan,project.json}';
+const excluded_files_glob = '{**/node_modules/**,**/.alan/**}';
+
+export type ProjectKind = 'alan' | 'dev';
+
+export interface AlanProject {
+	kind: ProjectKind;  // 'alan' for folders with an `alan` script, 'dev' for folders with a `project.json`
+	root: string;
+	folder: vscode.WorkspaceFolder | undefined;
+	name: string;       // the root relative to its workspace folder
+}
+
+function projectKind(marker: vscode.Uri): ProjectKind | undefined {
+	switch (path.basename(marker.fsPath)) {
+		case 'alan': return 'alan';
+		case 'project.json': return 'dev';
+		default: return undefined;
+	}
+}
+
+function projectName(root: string, folder: vscode.WorkspaceFolder | undefined): string {
+	if (!folder) return root;
+
+	const relative = path.relative(folder.uri.fsPath, root).replace(/\\/g, '/');
+	const multi_root = (vscode.workspace.workspaceFolders || []).length > 1;
+	if (relative === '') return folder.name;
+	return multi_root ? `${folder.name}/${relative}` : relative;
+}
+
+export {isInside};
+
+/* the deployment folders (those with a `connections.alan` file) of the project at `alan_root` */
+export async function findDeployments(alan_root: string): Promise<string[]> {
+	const connections = await vscode.workspace.findFiles(new vscode.RelativePattern(alan_root, '**/connections.alan'), excluded_files_glob);
+	return connections.map(uri => path.dirname(uri.fsPath)).sort();
+}
+
+/*
+	All Alan projects in the workspace: every folder with an `alan` script or a `project.json`,
+	in all workspace folders.
+*/
+export class AlanProjects implements vscode.Disposable {
+	private projects: Map<string, AlanProject> = new Map(); // marker path -> project
+	private disposables: vscode.Disposable[] = [];
+	private change_emitter = new vscode.EventEmitter<void>();
+	public readonly onDidChange: vscode.Event<void> = this.change_emitter.event;
+	public readonly ready: Promise<void>;
+
+	constructor() {
+		const watcher = vscode.workspace.createFileSystemWatcher(project_markers_glob, false, true, false);
+		this.disposables.push(
+			watcher,
+			this.change_emitter,
+			watcher.onDidCreate(uri => {
+				if (this.add(uri)) this.change_emitter.fire();
+			}),
+			watcher.onDidDelete(uri => {
+				if (this.projects.delete(uri.fsPath)) this.change_emitter.fire();
+			}),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuild())
+		);
+		this.ready = this.rebuild();
+	}
+
+	public dispose() {
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.projects.clear();
+	}
+
+	private async rebuild(): Promise<void> {
+		const markers = await vscode.workspace.findFiles(project_markers_glob, excluded_files_glob);
+		this.projects.clear();
+		markers.forEach(marker => this.add(marker));
+		this.change_emitter.fire();
+	}
+
+	private add(marker: vscode.Uri): boolean {
+		const kind = projectKind(marker);
+		if (!kind || marker.scheme !== 'file' || /[\\/](node_modules|\.alan)[\\/]/.test(marker.fsPath)) return false;
+
+		const root = path.dirname(marker.fsPath);
+		const folder = vscode.workspace.getWorkspaceFolder(marker);
+		this.projects.set(marker.fsPath, { kind: kind, root: root, folder: folder, name: projectName(root, folder) });
+		return true;
+	}
+
+	/* all projects, optionally of one kind, sorted by name */
+	public all(kind?: ProjectKind): AlanProject[] {
+		return Array.from(this.projects.values())
+			.filter(project => kind === undefined || project.kind === kind)
+			.sort((a, b) => a.name.localeCompare(b.name));
+	}
+
+	public get(root: string, kind?: ProjectKind): AlanProject | undefined {
+		return this.all(kind).find(project => path.relative(project.root, root) === '');
+	}
+
+	/* the innermost project containing `file` */
+	public projectOf(file: string, kind?: ProjectKind): AlanProject | undefined {
+		return this.all(kind)
+			.filter(project => isInside(file, project.root))
+			.sort((a, b) => b.root.length - a.root.length)[0];
+	}
+
+	/* lets the user choose a project if there is more than one */
+	public async pick(kind?: ProjectKind, place_holder: string = 'Alan project'): Promise<AlanProject | undefined> {
+		await this.ready;
+		const projects = this.all(kind);
+		if (projects.length <= 1) {
+			return projects[0];
+		}
+		const pick = await vscode.window.showQuickPick(projects.map(project => ({
+			label: project.name,
+			description: project.kind === 'dev' ? 'project.json' : undefined,
+			detail: project.root,
+			project: project
+		})), { placeHolder: place_holder });
+		return pick && pick.project;
+	}
+}
@@ -0,0 +1,78 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {TokenType} from './parser';
+import {findToken, identifierRange, TokenLocation} from './resolver';
+import {getSyntaxTree, toVSCodeRange} from './symbols';
+import {AlanSymbolIndex} from './indexer';
+import {AlanProjects} from './projects';
+import {findOccurrences, SourceFile} from './occurrences';
+
+function identifierAt(document: vscode.TextDocument, position: vscode.Position): TokenLocation | undefined {
+	return findToken(getSyntaxTree(document), position, TokenType.Identifier);
+}
+
+/*
+	All occurrences of the 'quoted' identifier at `position` in files with the same extension in the project of `document`.
+	Occurrences in the same document that resolve to a different property or state are left out.
+*/
+export async function findReferences(index: AlanSymbolIndex, projects: AlanProjects, document: vscode.TextDocument, position: vscode.Position, include_declaration: boolean): Promise<vscode.Location[]> {
+	const location = identifierAt(document, position);
+	if (!location) return [];
+
+	await index.ready;
+	index.update(document);
+	const project = projects.projectOf(document.uri.fsPath); // other projects have their own properties with the same names
+
+	const files: SourceFile[] = [];
+	index.getUris(path.extname(document.fileName)).forEach(uri => {
+		const tree = index.getTree(uri);
+		if (tree) files.push({ file: uri.fsPath, tree: tree });
+	});
+	const source: SourceFile = { file: document.uri.fsPath, tree: getSyntaxTree(document) };
+	return findOccurrences(files, project && project.root, source, location, include_declaration).map(occurrence => new vscode.Location(
+		occurrence.file === source.file ? document.uri : vscode.Uri.file(occurrence.file),
+		toVSCodeRange(identifierRange(occurrence.token))
+	));
+}
+
+export class AlanReferenceProvider implements vscode.ReferenceProvider {
+	constructor(private index: AlanSymbolIndex, private projects: AlanProjects) {}
+
+	public provideReferences(document: vscode.TextDocument, position: vscode.Position, context: vscode.ReferenceContext, token: vscode.CancellationToken): Promise<vscode.Location[]> {
+		return findReferences(this.index, this.projects, document, position, context.includeDeclaration);
+	}
+}
+
+export class AlanRenameProvider implements vscode.RenameProvider {
+	constructor(private index: AlanSymbolIndex, private projects: AlanProjects) {}
+
+	public prepareRename(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): { range: vscode.Range, placeholder: string } {
+		const location = identifierAt(document, position);
+		if (!location) {
+			throw new Error('Only \'quoted\' identifiers can be renamed.');
+		}
+		return {
+			range: toVSCodeRange(identifierRange(location.token)),
+			placeholder: location.token.value
+		};
+	}
+
+	public async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, new_name: string, token: vscode.CancellationToken): Promise<vscode.WorkspaceEdit> {
+		const name = new_name.replace(/^'(.*)'$/, '$1');
+		if (name === '' || /['\n\r]/.test(name)) {
+			throw new Error(`Invalid identifier: ${new_name}`);
+		}
+
+		const locations = await findReferences(this.index, this.projects, document, position, true);
+		const edit = new vscode.WorkspaceEdit();
+		locations.forEach(location => {
+			edit.replace(location.uri, location.range, name, {
+				needsConfirmation: true,
+				label: `Rename to '${name}'`
+			});
+		});
+		return edit;
+	}
+}
@@ -0,0 +1,240 @@
+'use strict';
+
+/*
+	Resolves 'quoted' identifiers in Alan navigation paths to the property or state they refer to.
+
+	Navigation steps are resolved relative to the node that contains the statement:
+	- `.'x'` selects property 'x' of the current node
+	- `>'x'` selects reference property 'x' and continues from the node it references
+	- `?'x'` selects state 'x' of the current state group
+	- `^` steps to the parent node, `$` restarts at the node that contains the statement
+
+	This module has no dependency on the `vscode` API.
+*/
+
+import {containsPosition, numerical_property_types, walk, Position, Range, SyntaxNode, SyntaxTree, Token, TokenType} from './parser';
+
+const navigation_operator: RegExp = /^\*?\$?\^*[.>?]?$/;
+const max_reference_depth = 16;
+
+export interface TokenLocation {
+	token: Token;
+	statement: SyntaxNode | undefined;
+	index: number; // index of the token in `statement.tokens`
+}
+
+const statement_maps: WeakMap<SyntaxTree, Map<Token, SyntaxNode>> = new WeakMap();
+
+function statementMap(tree: SyntaxTree): Map<Token, SyntaxNode> {
+	let map = statement_maps.get(tree);
+	if (!map) {
+		const new_map: Map<Token, SyntaxNode> = new Map();
+		walk(tree.nodes, node => node.tokens.forEach(token => new_map.set(token, node)));
+		statement_maps.set(tree, new_map);
+		map = new_map;
+	}
+	return map;
+}
+
+export function findToken(tree: SyntaxTree, position: Position, type?: TokenType): TokenLocation | undefined {
+	const token = tree.tokens.find(token => (type === undefined || token.type === type) && containsPosition(token.range, position));
+	return token ? locateToken(tree, token) : undefined;
+}
+
+export function locateToken(tree: SyntaxTree, token: Token): TokenLocation {
+	const statement = statementMap(tree).get(token);
+	return {
+		token: token,
+		statement: statement,
+		index: statement ? statement.tokens.indexOf(token) : -1
+	};
+}
+
+/* the range of the name of a 'quoted' identifier, without its quotes */
+export function identifierRange(token: Token): Range {
+	const {start, end} = token.range;
+	return {
+		start: { line: start.line, character: start.character + 1 },
+		end: token.unterminated ? end : { line: end.line, character: end.character - 1 }
+	};
+}
+
+export function isStatementName(location: TokenLocation): boolean {
+	return location.statement !== undefined && location.index === 0;
+}
+
+export function dataParent(node: SyntaxNode): SyntaxNode | undefined {
+	const parent = node.parent;
+	if (parent && parent.type === 'stategroup') {
+		return parent.parent;
+	}
+	return parent;
+}
+
+/* the node a navigation path inside `statement` starts from */
+export function dataContext(statement: SyntaxNode): SyntaxNode | undefined {
+	return dataParent(statement);
+}
+
+function childrenOf(tree: SyntaxTree, node: SyntaxNode | undefined): SyntaxNode[] {
+	return node ? node.children : tree.nodes;
+}
+
+export function findChild(tree: SyntaxTree, node: SyntaxNode | undefined, name: string, kind: 'property' | 'state'): SyntaxNode | undefined {
+	return childrenOf(tree, node).find(child => child.name === name && (kind === 'state' ? child.kind === 'state' : child.kind !== 'state'));
+}
+
+export function isNavigationOperator(token: Token): boolean {
+	return token.type === TokenType.Operator && navigation_operator.test(token.text);
+}
+
+/* the tokens of the navigation path that ends with `tokens[end]` */
+export function navigationChain(tokens: Token[], end: number): Token[] {
+	const chain: Token[] = [tokens[end]];
+	for (let i = end - 1; i >= 0; i--) {
+		const token = tokens[i];
+		if (token.type === TokenType.Close && token.text === ']') {
+			let depth = 0;
+			for (; i >= 0; i--) {
+				if (tokens[i].text === ']') depth++;
+				else if (tokens[i].text === '[' && --depth === 0) break;
+			}
+			continue;
+		}
+		if (isNavigationOperator(token)) {
+			chain.unshift(token);
+		} else if (token.type === TokenType.Identifier && chain[0].type === TokenType.Operator) {
+			chain.unshift(token);
+		} else {
+			break;
+		}
+	}
+	return chain;
+}
+
+/* follows the `->` path of a reference property to the node it references */
+export function referenceTarget(tree: SyntaxTree, property: SyntaxNode, depth: number = 0): SyntaxNode | undefined {
+	if (depth > max_reference_depth) return undefined;
+
+	const arrow = property.tokens.findIndex(token => token.type === TokenType.Operator && (token.text === '->' || token.text === '~>'));
+	if (arrow === -1) return undefined;
+
+	let end = arrow;
+	for (let i = arrow + 1; i < property.tokens.length; i++) {
+		const token = property.tokens[i];
+		if (token.type === TokenType.Identifier || isNavigationOperator(token)) {
+			end = i;
+		} else {
+			break;
+		}
+	}
+	if (end === arrow) return undefined;
+
+	const chain = navigationChain(property.tokens, end);
+	return resolveChain(tree, dataContext(property), chain, depth + 1);
+}
+
+interface ChainState {
+	target?: SyntaxNode;  // the node selected by the last identifier
+	current?: SyntaxNode; // the node the next step starts from; undefined for the top of the tree
+	known: boolean;       // false once `current` can't be determined
+	step?: string;        // the pending step: '.', '>' or '?'
+	failed?: boolean;
+	missing?: Token;      // the identifier that doesn't exist in a known node
+}
+
+function walkChain(tree: SyntaxTree, context: SyntaxNode | undefined, chain: Token[], depth: number): ChainState {
+	const state: ChainState = { current: context, known: true };
+
+	for (const token of chain) {
+		if (token.type === TokenType.Operator) {
+			for (const char of token.text) {
+				if (char === '$') {
+					state.current = context;
+					state.known = true;
+				} else if (char === '^') {
+					state.current = state.current ? dataParent(state.current) : undefined;
+					state.known = state.known && state.current !== undefined;
+				} else if (char === '.' || char === '>' || char === '?') {
+					state.step = char;
+				}
+			}
+			continue;
+		}
+		if (state.step === undefined || !state.known) {
+			state.failed = true;
+			return state;
+		}
+
+		state.target = findChild(tree, state.current, token.value, state.step === '?' ? 'state' : 'property');
+		if (!state.target) {
+			state.failed = true;
+			state.missing = token;
+			return state;
+		}
+
+		if (state.step === '>') {
+			state.current = referenceTarget(tree, state.target, depth);
+			state.known = state.current !== undefined;
+		} else {
+			state.current = state.target;
+		}
+		state.step = undefined;
+	}
+	return state;
+}
+
+/* resolves a navigation path; returns the node selected by its last step */
+export function resolveChain(tree: SyntaxTree, context: SyntaxNode | undefined, chain: Token[], depth: number = 0): SyntaxNode | undefined {
+	const state = walkChain(tree, context, chain, depth);
+	return state.failed ? undefined : state.target;
+}
+
+/* resolves an incomplete navigation path that ends with a step operator; returns the node and the step to take from it */
+export function resolvePendingStep(tree: SyntaxTree, context: SyntaxNode | undefined, chain: Token[]): { node: SyntaxNode | undefined, step: string } | undefined {
+	const state = walkChain(tree, context, chain, 0);
+	if (state.failed || !state.known || state.step === undefined) return undefined;
+	return { node: state.current, step: state.step };
+}
+
+/*
+	The identifier in a navigation path that doesn't exist in the node it is selected from, if any,
+	with the node it was looked up in (undefined for the top of the tree) and the step ('.', '>' or '?').
+*/
+export function missingStep(tree: SyntaxTree, context: SyntaxNode | undefined, chain: Token[]): { token: Token, node: SyntaxNode | undefined, step: string } | undefined {
+	const state = walkChain(tree, context, chain, 0);
+	return state.missing ? { token: state.missing, node: state.current, step: state.step } : undefined;
+}
+
+export function numericalTypes(tree: SyntaxTree): SyntaxNode[] {
+	const section = tree.nodes.find(node => node.kind === 'section' && node.name === 'numerical-types');
+	return section ? section.children : [];
+}
+
+function numericalType(tree: SyntaxTree, name: string): SyntaxNode | undefined {
+	return numericalTypes(tree).find(child => child.name === name);
+}
+
+/* resolves the identifier at `location` to the node it refers to; undefined if it can't be resolved */
+export function resolveIdentifier(tree: SyntaxTree, location: TokenLocation): SyntaxNode | undefined {
+	const {token, statement, index} = location;
+	if (!statement || token.type !== TokenType.Identifier) return undefined;
+	if (index === 0) return statement;
+
+	const previous = statement.tokens[index - 1];
+	if (previous.type === TokenType.Keyword && numerical_property_types.indexOf(previous.text) !== -1) {
+		return numericalType(tree, token.value);
+	}
+	if (previous.text === '[' && statement.type === 'collection' && statement.key === token.value) {
+		return findChild(tree, statement, token.value, 'property');
+	}
+
+	const chain = navigationChain(statement.tokens, index);
+	if (chain.length < 2) return undefined;
+	return resolveChain(tree, dataContext(statement), chain);
+}
+
+export function resolveDefinition(tree: SyntaxTree, position: Position): SyntaxNode | undefined {
+	const location = findToken(tree, position, TokenType.Identifier);
+	return location ? resolveIdentifier(tree, location) : undefined;
+}
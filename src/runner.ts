@@ -0,0 +1,296 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as proc from 'child_process';
+import {parseOutput} from './output';
+import {CompilerDiagnostics, TaskKind, toVSCodeDiagnostic} from './diagnostics';
+
+export interface TaskRequest {
+	kind: TaskKind;
+	title: string;  // shown in the progress notification, e.g. 'Alan: Build'
+	command: string;
+	cwd: string;
+	root: string;   // the project the task is for: tasks and their diagnostics are matched by kind and root, not by cwd
+	shell: string;
+	wsl: boolean;   // convert /mnt/<drive>/ paths in the output back to windows paths
+	background?: boolean; // show progress in the status bar only, and don't reveal the output channel
+	env?: {[name: string]: string}; // environment variables to run the command with, in addition to those of VS Code
+	output?: TaskOutput; // also receives the output of the task
+	finished?: (result: TaskResult) => void; // called when the task has run, or was cancelled before it started
+}
+
+export type TaskResult = number | undefined; // exit code; undefined if the task was cancelled or couldn't start
+export type TaskOutput = (data: string) => void;
+
+interface QueuedTask {
+	request: TaskRequest;
+	result: Promise<TaskResult>;
+	outputs: TaskOutput[];
+	start: () => void;
+	cancel: () => void;
+}
+
+interface ActiveTask {
+	request: TaskRequest;
+	child: proc.ChildProcess;
+	cancelled: boolean;
+}
+
+interface StatusBarEntry {
+	item: vscode.StatusBarItem;
+	label: string;
+	command: string | undefined;
+	timer?: NodeJS.Timer;
+}
+
+function bashPathsToWinPaths(string: string, wsl: boolean) {
+	if (wsl) {
+		return string.replace(/\/mnt\/([a-z])\//g, '$1:/');
+	}
+	return string;
+}
+function rawLocationsToVScodeLocations(string: string) {
+	string = string.replace(/ from ([0-9]+):([0-9]+)/g, ':$1:$2');
+	string = string.replace(/ at ([0-9]+):([0-9]+)/g, ':$1:$2');
+	return string;
+}
+function stripAnsi(string: string) {
+	const re_strip_ansi = /[\u001b\u009b][[()#;?]*(?:[0-9]{1,4}(?:;[0-9]{0,4})*)?[0-9A-ORZcf-nqry=><]/g;
+	return string.replace(re_strip_ansi, '');
+}
+function formatElapsed(ms: number): string {
+	const seconds = Math.floor(ms / 1000);
+	return `${Math.floor(seconds / 60)}:${('0' + seconds % 60).slice(-2)}`;
+}
+function isSameRequest(a: TaskRequest, b: TaskRequest): boolean {
+	return a.kind === b.kind && a.root === b.root && a.command === b.command && JSON.stringify(a.env) === JSON.stringify(b.env);
+}
+/* the environment of the command of `request`; WSL only passes on the variables listed in WSLENV */
+function requestEnvironment(request: TaskRequest): NodeJS.ProcessEnv | undefined {
+	if (!request.env) return undefined;
+	const env: NodeJS.ProcessEnv = Object.assign({}, process.env, request.env);
+	if (request.wsl) {
+		env.WSLENV = [process.env.WSLENV].concat(Object.keys(request.env)).filter(entry => entry).join(':');
+	}
+	return env;
+}
+
+/*
+	Runs Alan tasks one at a time. Requests made while a task is running are queued;
+	a request identical to one that is already queued is not queued twice.
+*/
+export class TaskRunner implements vscode.Disposable {
+	private active: ActiveTask | undefined;
+	private busy = false; // a task is starting or running; the next task starts when it has finished
+	private queue: QueuedTask[] = [];
+	private status_items: Map<TaskKind, StatusBarEntry> = new Map();
+
+	constructor(private output_channel: vscode.OutputChannel, private diagnostics: CompilerDiagnostics) {}
+
+	public dispose() {
+		this.queue = [];
+		this.cancel();
+		this.status_items.forEach(entry => {
+			if (entry.timer) clearInterval(entry.timer);
+		});
+	}
+
+	/* shows the state of tasks of `kind` on `item` */
+	public setStatusBarItem(kind: TaskKind, item: vscode.StatusBarItem, label: string) {
+		this.status_items.set(kind, { item: item, label: label, command: item.command as string | undefined });
+	}
+
+	public isRunning(): boolean {
+		return this.busy;
+	}
+
+	/* cancels `request` if it is running or queued, or the running task if no request is given */
+	public cancel(request?: TaskRequest) {
+		if (request) {
+			const queued = this.queue.find(task => isSameRequest(task.request, request));
+			if (queued) {
+				this.queue.splice(this.queue.indexOf(queued), 1);
+				queued.cancel();
+				return;
+			}
+		}
+		const active = this.active;
+		if (!active || active.cancelled) return;
+		if (request && !isSameRequest(active.request, request)) return;
+
+		active.cancelled = true;
+		this.output_channel.appendLine(`> Cancelling '${active.request.command}'`);
+		if (process.platform === 'win32') {
+			proc.spawn('taskkill', ['/pid', `${active.child.pid}`, '/T', '/F']);
+		} else {
+			try {
+				process.kill(-active.child.pid, 'SIGTERM'); // the whole process group
+			} catch {
+				active.child.kill();
+			}
+		}
+	}
+
+	/* runs `request` when the tasks before it have finished; `output` also receives the output of the task */
+	public run(request: TaskRequest, output?: TaskOutput): Promise<TaskResult> {
+		const queued = this.queue.find(task => isSameRequest(task.request, request));
+		if (queued) {
+			if (output) queued.outputs.push(output);
+			return queued.result;
+		}
+
+		const outputs: TaskOutput[] = [request.output, output].filter(entry => entry !== undefined);
+		let start: () => void;
+		let cancel: () => void;
+		const result = new Promise<TaskResult>(resolve => {
+			start = () => this.execute(request, outputs).then(resolve);
+			cancel = () => {
+				if (request.finished) request.finished(undefined);
+				resolve(undefined);
+			};
+		});
+		this.queue.push({ request: request, result: result, outputs: outputs, start: start, cancel: cancel });
+		if (this.busy) {
+			vscode.window.setStatusBarMessage(`Alan: '${request.title}' is queued`, 3000);
+		} else {
+			this.next();
+		}
+		return result;
+	}
+
+	private next() {
+		if (this.busy) return;
+		const task = this.queue.shift();
+		if (task) {
+			this.busy = true;
+			task.start();
+		}
+	}
+
+	private execute(request: TaskRequest, outputs: TaskOutput[]): Thenable<TaskResult> {
+		return vscode.window.withProgress({
+			location: request.background ? vscode.ProgressLocation.Window : vscode.ProgressLocation.Notification,
+			title: request.title,
+			cancellable: true
+		}, (progress, token) => {
+			token.onCancellationRequested(() => this.cancel());
+			return this.spawn(request, outputs);
+		}).then(result => result, (err): TaskResult => {
+			this.active = undefined;
+			this.output_channel.appendLine(`Failure executing command '${request.command}': ${err instanceof Error ? err.message : err}`);
+			return undefined;
+		}).then(result => {
+			this.busy = false;
+			this.next();
+			if (request.finished) request.finished(result);
+			return result;
+		});
+	}
+
+	private spawn(request: TaskRequest, outputs: TaskOutput[]): Promise<TaskResult> {
+		const output_channel = this.output_channel;
+		const diagnostics = this.diagnostics;
+		const append = (string: string) => {
+			output_channel.append(string);
+			outputs.forEach(output => output(string));
+		};
+		output_channel.clear();
+
+		if (!request.background && vscode.workspace.getConfiguration('alan-definitions').get<boolean>('showTaskOutput')) {
+			output_channel.show(true);
+		}
+
+		diagnostics.markStale(request.kind, request.root);
+		const started = Date.now();
+		this.showRunning(request.kind, started);
+
+		append(`> Running '${request.command}' in '${request.cwd}'\n`);
+		return new Promise<TaskResult>(resolve => {
+			const child: proc.ChildProcess | undefined = proc.spawn(request.shell, ['-c', request.command], {
+				cwd: request.cwd,
+				env: requestEnvironment(request),
+				detached: process.platform !== 'win32' // own process group, so cancelling also stops its children
+			});
+
+			let finished = false;
+			const finish = (result: TaskResult) => {
+				if (finished) return;
+				finished = true;
+				const cancelled = this.active !== undefined && this.active.cancelled;
+				this.active = undefined;
+				if (cancelled) {
+					append('> Cancelled\n');
+					diagnostics.restore(request.kind, request.root);
+					this.showFinished(request.kind, 'cancelled', started);
+					resolve(undefined);
+				} else {
+					this.showFinished(request.kind, result === 0 ? 'succeeded' : 'failed', started);
+					resolve(result);
+				}
+			};
+
+			if (!child) {
+				append(`Unable to execute command '${request.command}'.\n`);
+				diagnostics.restore(request.kind, request.root);
+				finish(undefined);
+				return;
+			}
+			this.active = { request: request, child: child, cancelled: false };
+
+			child.on('error', err => {
+				append(`Failure executing command '${request.command}'.\n`);
+				diagnostics.restore(request.kind, request.root);
+				finish(undefined);
+			});
+
+			let output_acc = '';
+			const onData = data => {
+				let string: string = bashPathsToWinPaths(data.toString(), request.wsl);
+				string = stripAnsi(string);
+				string = rawLocationsToVScodeLocations(string);
+
+				append(string);
+				output_acc += string;
+			};
+			child.stdout.on('data', onData);
+			child.stderr.on('data', onData);
+
+			child.on('close', retc => {
+				if (finished) return;
+				if (!this.active || !this.active.cancelled) {
+					diagnostics.publish(request.kind, request.root, parseOutput(output_acc)
+						.filter(diagnostic => diagnostic.file !== undefined)
+						.map(diagnostic => [vscode.Uri.file(diagnostic.file), [toVSCodeDiagnostic(diagnostic)]] as [vscode.Uri, vscode.Diagnostic[]]));
+				}
+				finish(retc === null ? 1 : retc);
+			});
+		});
+	}
+
+	private showRunning(kind: TaskKind, started: number) {
+		const entry = this.status_items.get(kind);
+		if (!entry) return;
+
+		const update = () => {
+			entry.item.text = `$(sync~spin) ${entry.label} ${formatElapsed(Date.now() - started)}`;
+		};
+		if (entry.timer) clearInterval(entry.timer);
+		entry.timer = setInterval(update, 1000);
+		update();
+		entry.item.tooltip = `${entry.label}: running (click to cancel)`;
+		entry.item.command = 'alan.tasks.cancel';
+	}
+
+	private showFinished(kind: TaskKind, state: 'succeeded' | 'failed' | 'cancelled', started: number) {
+		const entry = this.status_items.get(kind);
+		if (!entry) return;
+
+		if (entry.timer) clearInterval(entry.timer);
+		entry.timer = undefined;
+		const icon = state === 'succeeded' ? '$(check)' : state === 'failed' ? '$(error)' : '$(circle-slash)';
+		const elapsed = formatElapsed(Date.now() - started);
+		entry.item.text = `${icon} ${entry.label} ${elapsed}`;
+		entry.item.tooltip = `${entry.label}: ${state} after ${elapsed}`;
+		entry.item.command = entry.command;
+	}
+}
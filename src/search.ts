@@ -17,16 +17,20 @@
 */
 
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
+import {getSyntaxTree, toVSCodeRange} from './symbols';
+import {AlanSymbolIndex} from './indexer';
+import {AlanProjects, isInside} from './projects';
+import {findToken, isStatementName, resolveIdentifier} from './resolver';
+import {TokenType} from './parser';
 
 const word_pattern: RegExp = /'[^']+'/;
 
-export function showDefinitions(editor: vscode.TextEditor): Promise<void | vscode.Location[]> {
+export function showDefinitions(index: AlanSymbolIndex, projects: AlanProjects, editor: vscode.TextEditor): Promise<void | vscode.Location[]> {
 	let {document, selection} = editor;
 
 	//Fuzzy Definition Search based on Fuzzy Definitions from Johannes Rieken
-	return fuzzyDefinitionSearch(document, selection.active, new vscode.CancellationTokenSource().token).then(locations => {
+	return definitionSearch(index, projects, document, selection.active, new vscode.CancellationTokenSource().token).then(locations => {
 		if (!locations || locations.length === 0) {
 			let range = document.getWordRangeAtPosition(selection.active, word_pattern);
 			let message = range ? 'unable to find' : 'unable to find ' + document.getText(range);
@@ -49,14 +53,25 @@ export function showDefinitions(editor: vscode.TextEditor): Promise<void | vscod
 		});
 	});
 }
-export function fuzzyDefinitionSearch(document: vscode.TextDocument, pos: vscode.Position, token: vscode.CancellationToken) {
+export function definitionSearch(index: AlanSymbolIndex, projects: AlanProjects, document: vscode.TextDocument, pos: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Location[]> {
+	const location = scopedDefinitionSearch(document, pos);
+	if (location) {
+		return Promise.resolve([location]);
+	}
+	return fuzzyDefinitionSearch(index, projects, document, pos, token) || Promise.resolve([]);
+}
+function scopedDefinitionSearch(document: vscode.TextDocument, pos: vscode.Position): vscode.Location | undefined {
+	const tree = getSyntaxTree(document);
+	const token_location = findToken(tree, pos, TokenType.Identifier);
+	if (!token_location || isStatementName(token_location)) {
+		return undefined;
+	}
+	const node = resolveIdentifier(tree, token_location);
+	return node ? new vscode.Location(document.uri, toVSCodeRange(node.name_range)) : undefined;
+}
+export function fuzzyDefinitionSearch(index: AlanSymbolIndex, projects: AlanProjects, document: vscode.TextDocument, pos: vscode.Position, token: vscode.CancellationToken) {
 	if (document.getWordRangeAtPosition(pos, word_pattern)) {
-		return Promise.all([
-			delegatingDefinitionSearch(document, pos, token),
-			alanDefinitionSearch(document, pos, token)
-		]).then(values => {
-			let [first, second] = values;
-			let all = first.concat(second);
+		return alanDefinitionSearch(index, projects, document, pos, token).then(all => {
 			dedup(all);
 			return all;
 		});
@@ -98,74 +113,21 @@ function dedup(locations: vscode.Location[]){
 	}
 }
 
-function delegatingDefinitionSearch(document: vscode.TextDocument, pos: vscode.Position, token: vscode.CancellationToken): PromiseLike<vscode.Location[]> {
+async function alanDefinitionSearch(index: AlanSymbolIndex, projects: AlanProjects, document: vscode.TextDocument, pos: vscode.Position, token: vscode.CancellationToken): Promise<vscode.Location[]> {
 	let range = document.getWordRangeAtPosition(pos, word_pattern);
 	let word = document.getText(range);
 
-	return vscode.commands.executeCommand<vscode.SymbolInformation[]>('vscode.executeWorkspaceSymbolProvider', word).then(symbols => {
-		let result: vscode.Location[] = [];
-		for (let symbol of symbols) {
-			let {location} = symbol;
-			if (path.extname(location.uri.fsPath) === path.extname(document.fileName)) {
-				result.push(location);
-			}
-		}
-		return result;
-	});
-}
-
-function findFiles(base: string, ext: string, files: (string[]|undefined), result: (string[]|undefined)) {
-	files = files || fs.readdirSync(base);
-    result = result || [];
-
-    files.forEach(file => {
-		try {
-			var new_base = path.join(base, file);
-			if (fs.statSync(new_base).isDirectory()) {
-				result = findFiles(new_base, ext, fs.readdirSync(new_base), result);
-			} else {
-				if (file.substr(-1 * ext.length) === ext) {
-					result.push(new_base);
-				}
-			}
-		} catch {
-			//ignore
-		}
-	});
-    return result
-}
-
-function findInFile(file: string, text: string, on_result: (iline: number, icharacter: number) => void) {
-	let lines = fs.readFileSync(file).toString().split("\n");
-	lines.forEach((line: string, iline: number) => {
-		const character = line.indexOf(text);
-		if (character !== -1) {
-			on_result(iline, character);
-		}
-	});
-}
+	if (word.length > 300) {
+		throw `No definition found for ${word}.`;
+	}
+	const name = word.slice(1, word.length - 1);
 
-function alanDefinitionSearch(document: vscode.TextDocument, pos: vscode.Position, token: vscode.CancellationToken): PromiseLike<vscode.Location[]> {
-	return new Promise<vscode.Location[]>((resolve, reject) => {
-		let range = document.getWordRangeAtPosition(pos, word_pattern);
-		let word = document.getText(range);
+	await index.ready;
+	index.update(document);
+	const project = projects.projectOf(document.uri.fsPath); // only search the project of the document
 
-		if (word.length > 300) {
-			return reject(`No definition found for ${word}.`);
-		}
-		const pattern = `\t${word}`;
-		const result: vscode.Location[] = [];
-
-		const files: string[] = findFiles(vscode.workspace.rootPath, path.extname(document.fileName), undefined, undefined);
-		files.forEach((file) => {
-			let lastUri: vscode.Uri = vscode.Uri.file(file);
-			findInFile(file, pattern, (line, character) => {
-				range = new vscode.Range(line, character + 1, line, character + word.length + 1);
-				if (lastUri.toString() !== document.uri.toString() || !range.contains(pos)) {
-					result.push(new vscode.Location(lastUri, range));
-				}
-			});
-		});
-		resolve(result);
-	});
+	return index.lookup(name, path.extname(document.fileName))
+		.filter(symbol => !project || isInside(symbol.uri.fsPath, project.root))
+		.map(symbol => new vscode.Location(symbol.uri, toVSCodeRange(symbol.node.name_range)))
+		.filter(location => location.uri.toString() !== document.uri.toString() || !location.range.contains(pos));
 }
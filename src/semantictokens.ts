@@ -0,0 +1,64 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import {SyntaxNode, TokenType} from './parser';
+import {locateToken, resolveIdentifier} from './resolver';
+import {getSyntaxTree, symbolKind} from './symbols';
+
+/*
+	The types and modifiers of the 'quoted' identifiers. `collection` and `numericalType` are declared in `package.json`,
+	with `struct` and `type` as fallback for themes that don't style them.
+*/
+const token_types = ['namespace', 'class', 'enum', 'enumMember', 'struct', 'typeParameter', 'property', 'method', 'event', 'collection', 'numericalType'];
+const token_modifiers = ['declaration', 'reference'];
+
+export const semantic_tokens_legend = new vscode.SemanticTokensLegend(token_types, token_modifiers);
+
+/* the token type of each symbol kind the outline assigns; other kinds are plain properties */
+const symbol_kind_types: Map<vscode.SymbolKind, string> = new Map([
+	[vscode.SymbolKind.Method, 'method'],
+	[vscode.SymbolKind.Event, 'event'],
+	[vscode.SymbolKind.Array, 'collection'],
+	[vscode.SymbolKind.Class, 'class'],
+	[vscode.SymbolKind.Enum, 'enum'],
+	[vscode.SymbolKind.EnumMember, 'enumMember'],
+	[vscode.SymbolKind.Namespace, 'namespace'],
+	[vscode.SymbolKind.Struct, 'struct'],
+	[vscode.SymbolKind.TypeParameter, 'typeParameter']
+]);
+
+function isNumericalType(node: SyntaxNode): boolean {
+	return node.kind === 'entry' && node.parent !== undefined && node.parent.kind === 'section' && node.parent.name === 'numerical-types';
+}
+
+function tokenType(node: SyntaxNode): number {
+	const type = isNumericalType(node) ? 'numericalType' : symbol_kind_types.get(symbolKind(node)) || 'property';
+	return token_types.indexOf(type);
+}
+
+/*
+	Colors 'quoted' identifiers by the role of the property, state or numerical type they name or refer to.
+	Names of statements get the `declaration` modifier, identifiers in navigation paths and types the `reference` modifier.
+	Identifiers that can't be resolved are left to the TextMate grammar.
+*/
+export class AlanSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+	public provideDocumentSemanticTokens(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.SemanticTokens {
+		const tree = getSyntaxTree(document);
+		const builder = new vscode.SemanticTokensBuilder();
+		const declaration = 1 << token_modifiers.indexOf('declaration');
+		const reference = 1 << token_modifiers.indexOf('reference');
+
+		for (const identifier of tree.tokens) {
+			if (token.isCancellationRequested) break;
+			if (identifier.type !== TokenType.Identifier || identifier.range.start.line !== identifier.range.end.line) continue;
+
+			const location = locateToken(tree, identifier);
+			const target = resolveIdentifier(tree, location);
+			if (!target) continue;
+
+			const {start, end} = identifier.range;
+			builder.push(start.line, start.character, end.character - start.character, tokenType(target), location.index === 0 ? declaration : reference);
+		}
+		return builder.build();
+	}
+}
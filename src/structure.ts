@@ -0,0 +1,106 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import {SyntaxTree, TokenType} from './parser';
+import {findToken} from './resolver';
+import {AlanDocumentSymbol, AlanSymbolProvider, getSyntaxTree, toVSCodeRange} from './symbols';
+
+function walkSymbols(symbols: AlanDocumentSymbol[], callback: (symbol: AlanDocumentSymbol) => void) {
+	symbols.forEach(symbol => {
+		callback(symbol);
+		walkSymbols(symbol.children as AlanDocumentSymbol[], callback);
+	});
+}
+
+/* the last line to fold: a closing bracket on a line of its own stays visible */
+function foldEnd(document: vscode.TextDocument, range: vscode.Range): number {
+	const end = range.end;
+	if (end.character > 0 && document.lineAt(end.line).firstNonWhitespaceCharacterIndex === end.character - 1
+		&& '}])'.indexOf(document.lineAt(end.line).text.charAt(end.character - 1)) !== -1) {
+		return end.line - 1;
+	}
+	return end.line;
+}
+
+/*
+	Folds the statements of the outline (including sections without brackets), multi-line `{ }`, `( )` and `[ ]` pairs
+	and block comments. Of the ranges that start on the same line, the largest is folded.
+*/
+export class AlanFoldingRangeProvider implements vscode.FoldingRangeProvider {
+	constructor(private symbol_provider: AlanSymbolProvider) {}
+
+	public provideFoldingRanges(document: vscode.TextDocument, context: vscode.FoldingContext, token: vscode.CancellationToken): vscode.FoldingRange[] {
+		const tree = getSyntaxTree(document);
+		const ranges: Map<number, vscode.FoldingRange> = new Map();
+		const add = (start: number, end: number, kind?: vscode.FoldingRangeKind) => {
+			const existing = ranges.get(start);
+			if (end > start && (!existing || existing.end < end)) {
+				ranges.set(start, new vscode.FoldingRange(start, end, kind));
+			}
+		};
+
+		walkSymbols(this.symbol_provider.provideTreeSymbols(tree), symbol => add(symbol.range.start.line, foldEnd(document, symbol.range)));
+		tree.pairs.forEach(pair => {
+			if (pair.close) add(pair.open.range.start.line, foldEnd(document, toVSCodeRange({ start: pair.open.range.start, end: pair.close.range.end })));
+		});
+		tree.comments
+			.filter(comment => comment.text.startsWith('/*'))
+			.forEach(comment => add(comment.range.start.line, comment.range.end.line, vscode.FoldingRangeKind.Comment));
+
+		return Array.from(ranges.values()).sort((a, b) => a.start - b.start);
+	}
+}
+
+/* the ranges around `position`: the token, the bracket pairs and the statements of the outline that contain it */
+function enclosingRanges(tree: SyntaxTree, symbols: AlanDocumentSymbol[], position: vscode.Position): vscode.Range[] {
+	const ranges: vscode.Range[] = [];
+	const location = findToken(tree, { line: position.line, character: position.character });
+	if (location && location.token.type !== TokenType.Comment) {
+		const range = toVSCodeRange(location.token.range);
+		if (location.token.type === TokenType.Identifier && !location.token.unterminated && range.end.character - range.start.character > 2) {
+			ranges.push(new vscode.Range(range.start.translate(0, 1), range.end.translate(0, -1)));
+		}
+		ranges.push(range);
+	}
+	tree.pairs.forEach(pair => {
+		if (!pair.close) return;
+		const inner = new vscode.Range(toVSCodeRange(pair.open.range).end, toVSCodeRange(pair.close.range).start);
+		if (inner.contains(position)) {
+			ranges.push(inner, new vscode.Range(inner.start.translate(0, -1), inner.end.translate(0, 1)));
+		}
+	});
+	walkSymbols(symbols, symbol => {
+		if (symbol.range.contains(position)) ranges.push(symbol.range);
+	});
+	return ranges;
+}
+
+/*
+	Expands the selection by the structure of the model: from an identifier to its quotes, to the statement
+	of the property or state, to the body of the node that contains it, to the parent statement, and so on.
+*/
+export class AlanSelectionRangeProvider implements vscode.SelectionRangeProvider {
+	constructor(private symbol_provider: AlanSymbolProvider) {}
+
+	public provideSelectionRanges(document: vscode.TextDocument, positions: vscode.Position[], token: vscode.CancellationToken): vscode.SelectionRange[] {
+		const tree = getSyntaxTree(document);
+		const symbols = this.symbol_provider.provideTreeSymbols(tree);
+		const length = (range: vscode.Range) => document.offsetAt(range.end) - document.offsetAt(range.start);
+
+		return positions.map(position => {
+			const nested: vscode.Range[] = [];
+			enclosingRanges(tree, symbols, position)
+				.sort((a, b) => length(a) - length(b))
+				.forEach(range => {
+					const inner = nested[nested.length - 1];
+					if (!inner || (range.contains(inner) && !range.isEqual(inner))) nested.push(range);
+				});
+
+			let selection: vscode.SelectionRange | undefined;
+			for (let i = nested.length - 1; i >= 0; i--) {
+				selection = new vscode.SelectionRange(nested[i], selection);
+			}
+			return selection || new vscode.SelectionRange(new vscode.Range(position, position));
+		});
+	}
+}
@@ -1,128 +1,96 @@
 import * as vscode from 'vscode';
+import {parse, SyntaxNode, SyntaxTree, Range} from './parser';
 
-type AlanDocumentSymbol = (vscode.DocumentSymbol & {parent?: vscode.DocumentSymbol, level?: number});
+export type AlanDocumentSymbol = (vscode.DocumentSymbol & {parent?: AlanDocumentSymbol, node?: SyntaxNode});
 
-export class AlanSymbolProvider implements vscode.DocumentSymbolProvider {
-	private __createSymbol(name: string, detail: string, kind: vscode.SymbolKind, line: vscode.TextLine, offset: number, parent: AlanDocumentSymbol, symbols: AlanDocumentSymbol[]): AlanDocumentSymbol {
-		let new_symbol: AlanDocumentSymbol = new vscode.DocumentSymbol(
-			name,
-			detail,
-			kind,
-			new vscode.Range(line.range.start.line, 0, line.range.end.line, line.range.end.character),
-			new vscode.Range(line.range.start.line, offset, line.range.start.line, offset + name.length)
-		);
-		new_symbol.parent = parent;
-		new_symbol.level = offset;
+const syntax_trees: Map<string, {version: number, tree: SyntaxTree}> = new Map();
 
-		if (parent) {
-			parent.children.push(new_symbol);
-		} else {
-			symbols.push(new_symbol);
-		}
-		return new_symbol;
+export function getSyntaxTree(document: vscode.TextDocument): SyntaxTree {
+	const key = document.uri.toString();
+	const cached = syntax_trees.get(key);
+	if (cached && cached.version === document.version) {
+		return cached.tree;
 	}
+	const tree = parse(document.getText());
+	syntax_trees.set(key, {version: document.version, tree: tree});
+	return tree;
+}
+export function forgetSyntaxTree(document: vscode.TextDocument) {
+	syntax_trees.delete(document.uri.toString());
+}
+
+export function toVSCodeRange(range: Range): vscode.Range {
+	return new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character);
+}
 
-	private provideLineSymbols(document: vscode.TextDocument, lbegin: number, lend: number): AlanDocumentSymbol[] {
-		const symbols: AlanDocumentSymbol[] = [];
-		var re = /^(\s*)((?:'[^']*')|(?:[a-z]+[a-z\-\_\s]+))(.*)/;
-		let parent = undefined;
-		let line: vscode.TextLine;
-		for (var i = lbegin; i <= lend; i++) {
-			line = document.lineAt(i);
-			var matches = line.text.match(re);
-			if (matches !== null && matches.length >= 3 && matches[2] !== "") {
-				const my_level = matches[1].length;
-				while (parent && parent.level >= my_level) {
-					parent.range = new vscode.Range(parent.range.start.line, parent.range.start.character, line.range.start.line, line.range.start.character);
-					parent = parent.parent;
-				}
-				const name_len = matches[2].length;
-				let name: string;
-				let kind: vscode.SymbolKind;
-				let detail: string = '';
-				if (name_len > 2 && matches[2][0] === "'") {
-					name = matches[2].slice(1, matches[2].length - 1);
-					kind = vscode.SymbolKind.Module;
+export function symbolKind(node: SyntaxNode): vscode.SymbolKind {
+	switch (node.type) {
+		case 'command':
+			return vscode.SymbolKind.Method;
+		case 'with':
+			return vscode.SymbolKind.Event;
+		case 'collection':
+			return vscode.SymbolKind.Array;
+		case 'component':
+			return vscode.SymbolKind.Class;
+		case 'stategroup':
+			return vscode.SymbolKind.Enum;
+		case 'group':
+			return vscode.SymbolKind.Namespace;
+		case 'text':
+			return vscode.SymbolKind.String;
+		case 'integer':
+			return vscode.SymbolKind.Number;
+		case 'natural':
+			return vscode.SymbolKind.Number;
+		case 'file':
+			return vscode.SymbolKind.File;
+		case 'reference-set':
+			return vscode.SymbolKind.TypeParameter;
+		//legacy:
+		case 'number':
+			return vscode.SymbolKind.Number;
+		case 'reference':
+			return vscode.SymbolKind.String;
+		case 'matrix':
+			return vscode.SymbolKind.Array;
+		case 'densematrix':
+			return vscode.SymbolKind.Array;
+		case 'sparsematrix':
+			return vscode.SymbolKind.Array;
+	}
+	switch (node.kind) {
+		case 'section':
+			return vscode.SymbolKind.Struct;
+		case 'state':
+			return vscode.SymbolKind.EnumMember;
+		case 'property':
+			return vscode.SymbolKind.Property;
+		default:
+			return vscode.SymbolKind.Module;
+	}
+}
 
-					const re_types = /^\s*(?:\:|->|:=)?\s+(command|with|collection|component|stategroup|group|text|integer|natural|file|reference-set|number|reference|matrix|densematrix|sparsematrix)/;
-					if (matches.length > 3 && matches[3]) {
-						const res_types = matches[3].match(re_types);
-						if (res_types && res_types[1]) {
-							detail = res_types[1];
-							switch (res_types[1]) {
-								case 'command':
-									kind = vscode.SymbolKind.Method;
-									break;
-								case 'with':
-									kind = vscode.SymbolKind.Event;
-									break;
-								case 'collection':
-									kind = vscode.SymbolKind.Array;
-									break;
-								case 'component':
-									kind = vscode.SymbolKind.Class;
-									break;
-								case 'stategroup':
-									kind = vscode.SymbolKind.Enum;
-									break;
-								case 'group':
-									kind = vscode.SymbolKind.Namespace;
-									break;
-								case 'text':
-									kind = vscode.SymbolKind.String;
-									break;
-								case 'integer':
-									kind = vscode.SymbolKind.Number;
-									break;
-								case 'natural':
-									kind = vscode.SymbolKind.Number;
-									break;
-								case 'file':
-									kind = vscode.SymbolKind.File;
-									break;
-								case 'reference-set':
-									kind = vscode.SymbolKind.TypeParameter;
-									break;
-								//legacy:
-								case 'number':
-									kind = vscode.SymbolKind.Number;
-									break;
-								case 'reference':
-									kind = vscode.SymbolKind.String;
-									break;
-								case 'matrix':
-									kind = vscode.SymbolKind.Array;
-									break;
-								case 'densematrix':
-									kind = vscode.SymbolKind.Array;
-									break;
-								case 'sparsematrix':
-									kind = vscode.SymbolKind.Array;
-									break;
+export class AlanSymbolProvider implements vscode.DocumentSymbolProvider {
+	private createSymbol(node: SyntaxNode, parent: AlanDocumentSymbol | undefined): AlanDocumentSymbol {
+		const symbol: AlanDocumentSymbol = new vscode.DocumentSymbol(
+			node.name,
+			node.type || '',
+			symbolKind(node),
+			toVSCodeRange(node.range),
+			toVSCodeRange(node.name_range)
+		);
+		symbol.parent = parent;
+		symbol.node = node;
+		symbol.children = node.children.map(child => this.createSymbol(child, symbol));
+		return symbol;
+	}
 
-							}
-						} else {
-							kind = vscode.SymbolKind.EnumMember; //TODO: fix.
-						}
-					}
-				} else {
-					name = matches[2].trim();
-					kind = vscode.SymbolKind.Struct;
-				}
-				parent = this.__createSymbol(name, detail, kind, line, my_level, parent, symbols);
-			}
-		}
-		while (parent) {
-			parent.range = new vscode.Range(parent.range.start.line, parent.range.start.character, line.range.end.line, line.range.end.character);
-			parent = parent.parent;
-		}
-		return symbols;
+	public provideTreeSymbols(tree: SyntaxTree): AlanDocumentSymbol[] {
+		return tree.nodes.map(node => this.createSymbol(node, undefined));
 	}
 
 	public provideDocumentSymbols(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.DocumentSymbol[]> {
-		const $this = this;
-		return new Promise(async (resolve) => {
-			resolve($this.provideLineSymbols(document, 0, document.lineCount - 1));
-		});
+		return Promise.resolve(this.provideTreeSymbols(getSyntaxTree(document)));
 	}
 }
@@ -3,8 +3,11 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as proc from 'child_process';
-import sanitize from 'sanitize-filename';
+import {TaskKind} from './diagnostics';
+import {TaskRequest, TaskRunner} from './runner';
+import {AlanProject, findDeployments, isInside} from './projects';
+import {discardMigration, MigrationOptions, migrationFromCommit, migrationWizard, offerMappingFiles} from './migration';
+import {DeploymentProfile, confirmEmptyDeploy, deployRecord, logDeployment, profileEnvironment, profileScript} from './deployment';
 
 const wsl = 'C:\\Windows\\System32\\wsl.exe';
 const wsl_bash = 'C:\\Windows\\System32\\bash.exe';
@@ -21,17 +24,6 @@ function pathToBashPath(path : string, shell: string) {
 		.replace(/\\/g, '/') //  convert backslashes from windows paths
 		.replace(/ /g, '\\ '); // escape spaces
 }
-function bashPathsToWinPaths(string: string, shell: string) {
-	if (isWsl(shell)) {
-		return string.replace(/\/mnt\/([a-z])\//g, '$1:/');
-	}
-	return string;
-}
-function rawLocationsToVScodeLocations(string: string) {
-	string = string.replace(/ from ([0-9]+):([0-9]+)/g, ':$1:$2');
-	string = string.replace(/ at ([0-9]+):([0-9]+)/g, ':$1:$2');
-	return string;
-}
 function exists(inode: string): Promise<boolean> {
 	return new Promise<boolean>((resolve, _reject) => {
 		fs.exists(inode, (value) => {
@@ -67,180 +59,27 @@ async function resolveBashShell() : Promise<string> {
 	}
 }
 
-function stripAnsi(string: string) {
-	const re_strip_ansi = /[\u001b\u009b][[()#;?]*(?:[0-9]{1,4}(?:;[0-9]{0,4})*)?[0-9A-ORZcf-nqry=><]/g;
-	return string.replace(re_strip_ansi, '');
-}
-
-function executeCommand(shell_command: string, cwd: string, shell: string, output_channel: vscode.OutputChannel, diagnostics_collection: vscode.DiagnosticCollection) {
-	output_channel.clear();
-
-	if (vscode.workspace.getConfiguration('alan-definitions').get<boolean>('showTaskOutput')) {
-		output_channel.show(true);
-	}
-
-    diagnostics_collection.clear();
-
-	output_channel.appendLine(`> Running '${shell_command}' in '${cwd}'`);
-    const child: proc.ChildProcess|undefined
-        = proc.spawn(shell, ['-c', shell_command], { cwd: cwd });
-
-	if (child) {
-		child.on('error', err => {
-            const error = `Failure executing command '${shell_command}'.`;
-            output_channel.appendLine(error);
-		});
-
-		let output_acc = '';
-		child.stdout.on('data', data => {
-			let string: string = bashPathsToWinPaths(data.toString(), shell);
-			string = stripAnsi(string);
-			string = rawLocationsToVScodeLocations(string);
-
-			output_channel.append(string);
-			output_acc += string;
-		});
-
-		child.stderr.on('data', data => {
-			let string: string = bashPathsToWinPaths(data.toString(), shell);
-			string = stripAnsi(string);
-			string = rawLocationsToVScodeLocations(string);
-
-			output_channel.append(string);
-			output_acc += string;
-		});
-
-		child.on('close', retc => {
-			const diagnostics: [vscode.Uri, vscode.Diagnostic[]][] = [];
-
-			{ // output parser
-				let current_diagnostic: vscode.Diagnostic | undefined;
-				const lines: String[] = output_acc.split('\n');
-				lines.forEach((line) => {
-					function getSeverity(severity: string): vscode.DiagnosticSeverity {
-						return severity == 'error' ?
-							vscode.DiagnosticSeverity.Error : severity === 'warning' ?
-								vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information
-					}
-
-					const re_range: RegExp = /^((?:\/|[a-zA-Z]:).*\.alan):([0-9]+):([0-9]+) to ([0-9]+):([0-9]+) (error|warning): (.*)/;
-                    {
-                        const range_match = line.match(re_range);
-                        if (range_match) {
-                            const file = vscode.Uri.file(range_match[1]);
-                            const line = parseInt(range_match[2], 10);
-                            const column = parseInt(range_match[3], 10);
-                            const endLine = parseInt(range_match[4], 10);
-                            const endColumn = parseInt(range_match[5], 10);
-                            const severity = range_match[6];
-                            const message = range_match[7];
-
-                            const range = new vscode.Range(line - 1, column - 1, endLine - 1, endColumn - 1);
-                            current_diagnostic = new vscode.Diagnostic(range, message, getSeverity(severity));
-                            diagnostics.push([file, [current_diagnostic]]);
-                            return;
-                        }
-                    }
-
-					const re_locat: RegExp = /^((?:\/|[a-zA-Z]:).*\.alan):([0-9]+):([0-9]+) (error|warning): (.*)/;
-                    {
-                        const locat_match = line.match(re_locat);
-                        if (locat_match) {
-                            const file = vscode.Uri.file(locat_match[1]);
-                            const line = parseInt(locat_match[2], 10);
-                            const column = parseInt(locat_match[3], 10);
-                            const severity = locat_match[4];
-                            const message = locat_match[5];
-
-                            const range = new vscode.Range(line - 1, column - 1, line - 1, column - 1);
-                            current_diagnostic = new vscode.Diagnostic(range, message, getSeverity(severity));
-                            diagnostics.push([file, [current_diagnostic]]);
-                            return;
-                        }
-                    }
-
-                    const re_link: RegExp = /^((?:\/|[a-zA-Z]:).*\.link) (error|warning): (.*)/;
-                    {
-                        const link_match = line.match(re_link);
-                        if (link_match) {
-                            const file = vscode.Uri.file(link_match[1]);
-                            const severity = link_match[2];
-                            const message = link_match[3];
-
-                            const range = new vscode.Range(0, 0, 0, 0);
-                            current_diagnostic = new vscode.Diagnostic(range, message, getSeverity(severity));
-                            diagnostics.push([file, [current_diagnostic]]);
-                            return;
-                        }
-                    }
-
-                    const re_other: RegExp = /^((?:\/|[a-zA-Z]:).*) (error|warning): (.*)/;
-                    {
-                        const other_match = line.match(re_other);
-                        if (other_match) {
-                            const file = vscode.Uri.file(other_match[1]);
-                            const severity = other_match[2];
-                            const message = other_match[3];
-
-                            const range = new vscode.Range(0, 0, 0, 0);
-                            current_diagnostic = new vscode.Diagnostic(range, message, getSeverity(severity));
-                            diagnostics.push([file, [current_diagnostic]]);
-                            return;
-                        }
-                    }
-
-					if (current_diagnostic && line.startsWith('\t')) {
-						current_diagnostic.message += '\n' + line;
-					} else {
-						current_diagnostic = undefined;
-					}
-				});
-			}
-
-			diagnostics_collection.set(diagnostics);
-		});
-	} else {
-        const error = `Unable to execute command '${shell_command}'.`;
-        output_channel.appendLine(error);
-	}
-}
-
-async function getMigrationName(shell: string, alan_root: string): Promise<string> {
-	return new Promise(resolve => {
-		vscode.window.showInputBox({
-			value: 'from_empty',
-			valueSelection: [5,10],
-			placeHolder: `For example: <git commit id of 'from' model>`
-		}).then(migration_name_raw => {
-			const migration_name = sanitize(migration_name_raw);
-			resolve(pathToBashPath(`${alan_root}/migrations/${migration_name}`, shell));
-		});
-	});
+const task_titles: {[kind: string]: string} = {
+	build: 'Alan: Build',
+	fetch: 'Alan: Fetch',
+	package: 'Alan: Package',
+	migration: 'Alan: Generate Migration',
+	deploy: 'Alan: Deploy',
+	test: 'Alan: Test'
+};
+
+function createRequest(kind: TaskKind, shell_command: string, cwd: string, root: string, shell: string): TaskRequest {
+	return {
+		kind: kind,
+		title: task_titles[kind],
+		command: shell_command,
+		cwd: cwd,
+		root: root,
+		shell: shell,
+		wsl: isWsl(shell)
+	};
 }
-async function getMigrationModel(shell: string, alan_root: string): Promise<string> {
-	return new Promise(resolve => {
-		const systems_dirs = fs.readdirSync(path.join(alan_root, 'systems'))
-			.map(system => path.join(system, 'model.lib.link'))
-			.filter(modellib => fs.existsSync(path.join(alan_root, 'systems', modellib)));
 
-		vscode.window.showQuickPick(systems_dirs, {
-			placeHolder: 'migration target model'
-		}).then(migration_model => {
-			resolve(pathToBashPath(`${alan_root}/systems/${migration_model}`, shell));
-		});
-	});
-}
-async function getMigrationType(): Promise<string> {
-	const migration_type_bootstrap = 'initialization from empty dataset';
-	const migration_type = await vscode.window.showQuickPick([
-		migration_type_bootstrap,
-		'mapping from target conformant dataset'
-	], {
-		placeHolder: 'migration type'
-	});
-
-	return migration_type === migration_type_bootstrap ? '--bootstrap' : '';
-}
 class DeployItem implements vscode.QuickPickItem {
 	label: string;
 	description?: string;
@@ -256,7 +95,7 @@ class DeployItem implements vscode.QuickPickItem {
 	}
 }
 async function getDeployType(): Promise<string | undefined> {
-	const deploy_type_empty = new DeployItem('empty', 'Initialize with empty dataset', 'Use this for your first deployment or if you want to start over. This will remove all user data!');
+	const deploy_type_empty = new DeployItem('empty', 'Initialize with empty dataset', 'Use this for your first deployment or if you want to start over. This will remove all user data! You are asked to confirm.');
 	const deploy_type_migrate = new DeployItem('migrate', 'Migrate from current version', 'This will migrate the data from the running version to your current application version.');
 	const deploy_type = await vscode.window.showQuickPick([
 		deploy_type_empty,
@@ -268,55 +107,164 @@ async function getDeployType(): Promise<string | undefined> {
 	return deploy_type === undefined ? undefined : deploy_type.label;
 }
 
-export async function generateMigration(working_dir: string, alan_root: string, output_channel: vscode.OutputChannel, diagnostics_collection: vscode.DiagnosticCollection) {
+async function migrationRequest(working_dir: string, alan_root: string, migration: MigrationOptions): Promise<TaskRequest> {
 	const shell = await resolveBashShell();
 	const alan_root_folder = pathToBashPath(alan_root, shell);
+	const name = pathToBashPath(`${alan_root}/migrations/${migration.name}`, shell);
+	const model = pathToBashPath(`${alan_root}/systems/${migration.model}`, shell);
+	const type = migration.type === 'bootstrap' ? '--bootstrap' : '';
 
-	const name = await getMigrationName(shell, alan_root);
-	const model = await getMigrationModel(shell, alan_root);
-	const type = await getMigrationType();
-
-	executeCommand(
+	const request = createRequest(
+		'migration',
 		`${alan_root_folder}/.alan/dataenv/system-types/datastore/scripts/generate_migration.sh ${name} ${model} ${type}`,
 		working_dir,
-		shell,
-		output_channel,
-		diagnostics_collection);
+		alan_root,
+		shell);
+	request.finished = result => {
+		if (result === 0) offerMappingFiles(path.join(alan_root, 'migrations', migration.name));
+	};
+	return request;
 }
 
-export async function build(working_dir: string, alan_root: string, output_channel: vscode.OutputChannel, diagnostics_collection: vscode.DiagnosticCollection) {
+/* the system of `working_dir`, if it is (in) a folder in `systems/` */
+export function contextSystem(working_dir: string, alan_root: string): string {
+	return path.relative(path.join(alan_root, 'systems'), working_dir).split(/[\\/]/)[0];
+}
+
+export async function generateMigration(working_dir: string, alan_root: string): Promise<TaskRequest | undefined> {
+	const migration = await migrationWizard(alan_root, contextSystem(working_dir, alan_root));
+	return migration && migrationRequest(working_dir, alan_root, migration);
+}
+
+export async function generateMigrationFromCommit(working_dir: string, alan_root: string): Promise<TaskRequest | undefined> {
+	const migration = await migrationFromCommit(alan_root, contextSystem(working_dir, alan_root));
+	if (!migration) return undefined;
+
+	const request = await migrationRequest(working_dir, alan_root, migration);
+	const finished = request.finished;
+	request.finished = result => {
+		// the folder was created for the model to migrate from; don't leave it behind if nothing was generated
+		if (result !== 0) discardMigration(alan_root, migration.name);
+		finished(result);
+	};
+	return request;
+}
+
+export async function build(working_dir: string, alan_root: string): Promise<TaskRequest> {
 	const shell = await resolveBashShell();
 	const alan = pathToBashPath(`${alan_root}/alan`, shell);
 
-	executeCommand(`${alan} build`, working_dir, shell, output_channel, diagnostics_collection);
+	return createRequest('build', `${alan} build`, working_dir, alan_root, shell);
 }
 
-export async function package_deployment(src: string, output_channel: vscode.OutputChannel, diagnostics_collection: vscode.DiagnosticCollection) {
-	const shell = await resolveBashShell();
+/* the package file of the deployment in `deployment_dir`: from the `alan-definitions.packageNames` setting, or `dist/<deployment>.pkg` */
+export function packageFile(alan_root: string, deployment_dir: string): string {
+	const names = vscode.workspace.getConfiguration('alan-definitions').get<{[deployment: string]: string}>('packageNames', {});
+	const name = names[path.relative(alan_root, deployment_dir).replace(/\\/g, '/')];
+	return path.resolve(alan_root, name || path.join('dist', `${path.basename(deployment_dir)}.pkg`));
+}
 
-	const active_file_dirname = path.dirname(src);
-	const active_file_dirname_bash = pathToBashPath(active_file_dirname, shell);
-	const alan_root = await resolveRoot(active_file_dirname, 'alan');
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
 
-	executeCommand(`./alan package ./dist/project.pkg ${active_file_dirname_bash}`, alan_root, shell, output_channel, diagnostics_collection);
+function reportPackage(alan_root: string, package_file: string) {
+	const name = path.relative(alan_root, package_file).replace(/\\/g, '/');
+	fs.stat(package_file, (err, stats) => {
+		if (err) {
+			vscode.window.showWarningMessage(`Packaging succeeded, but '${name}' was not found.`);
+			return;
+		}
+		const reveal = 'Reveal in Explorer';
+		vscode.window.showInformationMessage(`Packaged '${name}' (${formatSize(stats.size)}).`, reveal).then(choice => {
+			if (choice === reveal) vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(package_file));
+		});
+	});
 }
 
-export async function fetch(alan_root: string, output_channel: vscode.OutputChannel, diagnostics_collection: vscode.DiagnosticCollection) {
+/* the request to package the deployment in `deployment_dir` of the project at `alan_root` */
+export async function package_deployment(deployment_dir: string, alan_root: string): Promise<TaskRequest> {
 	const shell = await resolveBashShell();
-	const alan = pathToBashPath(`${alan_root}/alan`, shell);
+	const package_file = packageFile(alan_root, deployment_dir);
+	fs.mkdirSync(path.dirname(package_file), { recursive: true });
+
+	const request = createRequest('package', `./alan package ${pathToBashPath(package_file, shell)} ${pathToBashPath(deployment_dir, shell)}`, alan_root, alan_root, shell);
+	request.title = `${task_titles.package} (${path.basename(deployment_dir)})`;
+	request.finished = result => {
+		if (result === 0) reportPackage(alan_root, package_file);
+	};
+	return request;
+}
 
-	executeCommand(`${alan} fetch`, alan_root, shell, output_channel, diagnostics_collection);
+/*
+	Asks which deployments of the project at `alan_root` to package; the deployment of `active_file` is preselected.
+	A single deployment is returned without asking.
+*/
+export async function pickDeployments(alan_root: string, many: boolean, active_file?: string): Promise<string[]> {
+	const deployments = await findDeployments(alan_root);
+	if (deployments.length === 0) {
+		vscode.window.showErrorMessage(`No deployments (folders with a connections.alan file) found in '${alan_root}'.`);
+		return [];
+	}
+	if (deployments.length === 1) return deployments;
+
+	const items = deployments.map(deployment => ({
+		label: path.relative(alan_root, deployment).replace(/\\/g, '/'),
+		description: `→ ${path.relative(alan_root, packageFile(alan_root, deployment)).replace(/\\/g, '/')}`,
+		picked: active_file !== undefined && isInside(active_file, deployment),
+		deployment: deployment
+	}));
+	if (many) {
+		const picks = await vscode.window.showQuickPick(items, { placeHolder: 'deployments to package', canPickMany: true });
+		return picks ? picks.map(pick => pick.deployment) : [];
+	}
+	const pick = await vscode.window.showQuickPick(items, { placeHolder: 'deployment to package' });
+	return pick ? [pick.deployment] : [];
 }
 
-export async function deploy(alan_root: string, output_channel: vscode.OutputChannel, diagnostics_collection: vscode.DiagnosticCollection) {
+export async function fetch(alan_root: string): Promise<TaskRequest> {
 	const shell = await resolveBashShell();
-	const deploy_sh = pathToBashPath(`${alan_root}/deploy.sh`, shell);
+	const alan = pathToBashPath(`${alan_root}/alan`, shell);
+
+	return createRequest('fetch', `${alan} fetch`, alan_root, alan_root, shell);
+}
 
-	const deploy_type = await getDeployType();
+/*
+	The request to deploy the project at `alan_root` with `profile`; the deployment is also logged to `history` and the audit log.
+	Deployments with an empty dataset have to be confirmed, and only start when the `beforeEmptyDeploy` command of the profile succeeds.
+*/
+export async function deploy(alan_root: string, profile: DeploymentProfile, history: vscode.OutputChannel): Promise<TaskRequest | undefined> {
+	const shell = await resolveBashShell();
+	const deploy_sh = pathToBashPath(profileScript(profile, alan_root), shell);
 
-	if (deploy_type !== undefined) {
-		executeCommand(`${deploy_sh} ${deploy_type}`, alan_root, shell, output_channel, diagnostics_collection);
+	const deploy_type = profile.data_source === 'ask' ? await getDeployType() : profile.data_source;
+	if (deploy_type === undefined) {
+		return undefined;
 	}
+	let command = `${deploy_sh} ${deploy_type}`;
+	if (deploy_type === 'empty') {
+		if (!await confirmEmptyDeploy(profile, alan_root)) {
+			return undefined;
+		}
+		if (profile.before_empty_deploy) {
+			command = `(${profile.before_empty_deploy}) && ${command}`;
+		}
+	}
+
+	const request = createRequest('deploy', command, alan_root, alan_root, shell);
+	request.title = `${task_titles.deploy} (${profile.name})`;
+	request.env = profileEnvironment(profile);
+	request.output = data => history.append(data);
+	const record = await deployRecord(profile, alan_root, deploy_type);
+	history.appendLine(`> ${record.time} ${record.user} deploying '${alan_root}' with data source '${deploy_type}'`);
+	request.finished = result => {
+		record.result = result === undefined ? 'cancelled' : result === 0 ? 'succeeded' : `failed with exit code ${result}`;
+		history.appendLine(`> ${record.result}\n`);
+		logDeployment(alan_root, record);
+	};
+	return request;
 }
 
 export async function resolveRoot(file_dir: string, root_marker: string) : Promise<string> {
@@ -338,135 +286,210 @@ export async function resolveRoot(file_dir: string, root_marker: string) : Promi
 	});
 }
 
-export async function getTasksList(alan_root: string, deploy_supported: boolean): Promise<vscode.Task[]> {
-	const workspace_root = vscode.workspace.rootPath;
-	if (!workspace_root) return [];
-
-	try {
-		const shell = await resolveBashShell();
-
-		const result: vscode.Task[] = [];
-		const default_options: vscode.ShellExecutionOptions = {
-			'executable': shell, //custom or default
-			'shellArgs': ['-c']
-		};
-		const no_problem_matchers = []; // prevent popup to scan task output
-
-		const fetch_task = new vscode.Task({
-			'type': 'alan',
-			'task': 'fetch'
-		}, 'fetch','alan', new vscode.ShellExecution('${command:alan.tasks.fetch}', default_options), no_problem_matchers);
-		fetch_task.group = vscode.TaskGroup.Clean; //??
-
-		const build_task = new vscode.Task({
-			'type': 'alan',
-			'task': 'build'
-		}, 'build','alan', new vscode.ShellExecution('${command:alan.tasks.build}', default_options), no_problem_matchers);
-		build_task.group = vscode.TaskGroup.Build;
-
-		const migration_task = new vscode.Task({
-			'type': 'alan',
-			'task': 'generate migration'
-		}, 'generate migration', 'alan', new vscode.ShellExecution('${command:alan.tasks.generateMigration}', default_options), no_problem_matchers);
-		migration_task.group = vscode.TaskGroup.Clean; //??
-
-		result.push(fetch_task);
-		result.push(build_task);
-		result.push(migration_task);
-
-		if (vscode.window.activeTextEditor && path.basename(vscode.window.activeTextEditor.document.uri.fsPath) === 'connections.alan') {
-			const package_task = new vscode.Task({
-				'type': 'alan',
-				'task': 'package'
-			}, 'package', 'alan', new vscode.ShellExecution('${command:alan.tasks.package}', default_options), no_problem_matchers);
-			package_task.group = vscode.TaskGroup.Build;
-			result.push(package_task);
-		}
+export async function buildDev(dev_root: string): Promise<TaskRequest> {
+	const shell = await resolveBashShell();
+	const build_sh = pathToBashPath(`${dev_root}/build.sh`, shell);
+
+	return createRequest('build', `${build_sh}`, dev_root, dev_root, shell);
+}
+export async function testDev(dev_root: string): Promise<TaskRequest> {
+	const shell = await resolveBashShell();
+	const test_sh = pathToBashPath(`${dev_root}/test.sh`, shell);
+
+	return createRequest('test', `${test_sh}`, dev_root, dev_root, shell);
+}
+export async function bootstrapDev(dev_root: string): Promise<TaskRequest> {
+	const shell = await resolveBashShell();
+	const bootstrap_sh = pathToBashPath(`${dev_root}/bootstrap.sh`, shell);
 
-		if (deploy_supported) {
-			const deploy_task = new vscode.Task({
-				'type': 'alan',
-				'task': 'deploy'
-			}, 'deploy', 'alan', new vscode.ShellExecution('${command:alan.tasks.deploy}', default_options), no_problem_matchers);
-			deploy_task.group = vscode.TaskGroup.Test;
-			result.push(deploy_task);
+	return createRequest('fetch', `${bootstrap_sh}`, dev_root, dev_root, shell);
+}
+
+/*
+	Resolves the request to run for an Alan task in the project at `project_root`, or in the project of the
+	active file if no project is given. Resolves to undefined if the user cancelled, and rejects with an error to report.
+*/
+export type TaskRequestResolver = (task: string, project_root?: string) => Promise<TaskRequest | undefined>;
+
+/*
+	Runs an Alan task in the terminal of the Tasks panel. The exit code is passed on to VS Code,
+	so `dependsOn` and `preLaunchTask` wait for the task and stop when it fails.
+*/
+class AlanTaskTerminal implements vscode.Pseudoterminal {
+	private write_emitter = new vscode.EventEmitter<string>();
+	private close_emitter = new vscode.EventEmitter<number>();
+	public onDidWrite: vscode.Event<string> = this.write_emitter.event;
+	public onDidClose: vscode.Event<number> = this.close_emitter.event;
+	private request: TaskRequest | undefined;
+
+	constructor(private runner: TaskRunner, private resolve: () => Promise<TaskRequest | undefined>) {}
+
+	public open() {
+		this.execute();
+	}
+
+	public close() {
+		if (this.request) {
+			this.runner.cancel(this.request);
 		}
+	}
 
-		return result;
-	} catch {
-		return [];
+	private write(data: string) {
+		this.write_emitter.fire(data.replace(/\r?\n/g, '\r\n'));
+	}
+
+	private async execute() {
+		try {
+			this.request = await this.resolve();
+		} catch (err) {
+			this.write(`${err instanceof Error ? err.message : 'Unable to resolve the task.'}\n`);
+			this.close_emitter.fire(1);
+			return;
+		}
+		if (!this.request) {
+			this.write('Cancelled.\n');
+			this.close_emitter.fire(1);
+			return;
+		}
+		const result = await this.runner.run(this.request, data => this.write(data));
+		this.close_emitter.fire(result === undefined ? 1 : result);
 	}
 }
 
+const task_groups: {[task: string]: vscode.TaskGroup} = {
+	'fetch': vscode.TaskGroup.Clean, //??
+	'build': vscode.TaskGroup.Build,
+	'generate migration': vscode.TaskGroup.Clean, //??
+	'package': vscode.TaskGroup.Build,
+	'deploy': vscode.TaskGroup.Test,
+	'test': vscode.TaskGroup.Test
+};
+
+/* the root of the project a task runs in: `project` is relative to the workspace folder of the task */
+function taskProjectRoot(definition: vscode.TaskDefinition, scope: vscode.TaskScope | vscode.WorkspaceFolder): string | undefined {
+	const project: string | undefined = definition.project;
+	if (project === undefined || project === '') return undefined;
+	if (path.isAbsolute(project) || typeof scope !== 'object') return project;
+	return path.resolve(scope.uri.fsPath, project);
+}
 
-export async function buildDev(output_channel: vscode.OutputChannel, diagnostics_collection: vscode.DiagnosticCollection) {
-	const shell = await resolveBashShell();
+function createTask(definition: vscode.TaskDefinition, scope: vscode.TaskScope | vscode.WorkspaceFolder, label: string, runner: TaskRunner, resolve: TaskRequestResolver): vscode.Task {
+	const name: string = definition.task;
+	const project_root = taskProjectRoot(definition, scope);
+	const task = new vscode.Task(definition, scope, label, 'alan', new vscode.CustomExecution(async () => {
+		return new AlanTaskTerminal(runner, () => resolve(name, project_root));
+	}), []);
+	task.group = task_groups[name];
+	return task;
+}
 
-	const active_file_name = vscode.window.activeTextEditor.document.fileName;
-	const active_file_dirname = path.dirname(active_file_name);
-	const alan_root = await resolveRoot(active_file_dirname, 'project.json');
-	const build_sh = pathToBashPath(`${alan_root}/build.sh`, shell);
+function createProjectTasks(project: AlanProject, task_names: string[], qualify: boolean, runner: TaskRunner, resolve: TaskRequestResolver): vscode.Task[] {
+	const relative_root = project.folder ? path.relative(project.folder.uri.fsPath, project.root).replace(/\\/g, '/') || '.' : project.root;
+	return task_names.map(name => createTask(
+		{ type: 'alan', task: name, project: relative_root },
+		project.folder || vscode.TaskScope.Workspace,
+		qualify ? `${name} (${project.name})` : name,
+		runner,
+		resolve
+	));
+}
 
-	executeCommand(`${build_sh}`, alan_root, shell, output_channel, diagnostics_collection);
+/* the tasks of an alan project; `qualify` adds the project name to the task labels */
+export function getTasksList(project: AlanProject, qualify: boolean, deploy_supported: boolean, runner: TaskRunner, resolve: TaskRequestResolver): vscode.Task[] {
+	const task_names = ['fetch', 'build', 'generate migration', 'package'];
+	if (deploy_supported) {
+		task_names.push('deploy');
+	}
+	return createProjectTasks(project, task_names, qualify, runner, resolve);
 }
-export async function testDev(output_channel: vscode.OutputChannel, diagnostics_collection: vscode.DiagnosticCollection) {
-	const shell = await resolveBashShell();
 
-	const active_file_name = vscode.window.activeTextEditor.document.fileName;
-	const active_file_dirname = path.dirname(active_file_name);
-	const alan_root = await resolveRoot(active_file_dirname, 'project.json');
-	const test_sh = pathToBashPath(`${alan_root}/test.sh`, shell);
-
-	executeCommand(`${test_sh}`, alan_root, shell, output_channel, diagnostics_collection);
-}
-
-export async function getTasksListDev(dev_root: string): Promise<vscode.Task[]> {
-	const workspace_root = vscode.workspace.rootPath;
-	if (!workspace_root) return [];
-
-	try {
-		const shell = await resolveBashShell();
-		const bootstrap_sh = pathToBashPath(`${dev_root}/bootstrap.sh`, shell);
-
-		const result: vscode.Task[] = [];
-		const default_options: vscode.ShellExecutionOptions = {
-			'executable': shell, //custom or default
-			'cwd': '${fileDirname}',
-			'shellArgs': ['-c']
-		};
-		const no_problem_matchers = []; // prevent popup to scan task output
-
-		const bootstrap_task = new vscode.Task({
-			'type': 'alan',
-			'task': 'fetch'
-		}, 'fetch','alan', new vscode.ShellExecution(`${bootstrap_sh}`, default_options), no_problem_matchers);
-		default_options.cwd = dev_root;
-		bootstrap_task.group = vscode.TaskGroup.Clean; //??
-		bootstrap_task.presentationOptions = {
-			'clear': true,
-			'reveal': vscode.TaskRevealKind.Always,
-			'showReuseMessage': false,
-			'focus': false
-		};
-
-		const build_task = new vscode.Task({
-			'type': 'alan',
-			'task': 'build'
-		}, 'build','alan', new vscode.ShellExecution('${command:alan.dev.tasks.build}', default_options), no_problem_matchers);
-		build_task.group = vscode.TaskGroup.Build;
-
-		const test_task = new vscode.Task({
-			'type': 'alan',
-			'task': 'test'
-		}, 'test', 'alan', new vscode.ShellExecution('${command:alan.dev.tasks.test}', default_options), no_problem_matchers);
-		test_task.group = vscode.TaskGroup.Test;
-
-		result.push(bootstrap_task);
-		result.push(build_task);
-		result.push(test_task);
-
-		return result;
-	} catch {
-		return [];
+/* the tasks of an alan dev/meta project */
+export function getTasksListDev(project: AlanProject, qualify: boolean, runner: TaskRunner, resolve: TaskRequestResolver): vscode.Task[] {
+	const result = createProjectTasks(project, ['fetch', 'build', 'test'], qualify, runner, resolve);
+	result[0].presentationOptions = {
+		'clear': true,
+		'reveal': vscode.TaskRevealKind.Always,
+		'showReuseMessage': false,
+		'focus': false
+	};
+	return result;
+}
+
+/* resolves a task configured in `tasks.json` */
+export function resolveTask(task: vscode.Task, runner: TaskRunner, resolve: TaskRequestResolver): vscode.Task | undefined {
+	if (task.definition.type !== 'alan' || task_groups[task.definition.task] === undefined) {
+		return undefined;
+	}
+	const scope = task.scope === undefined || task.scope === vscode.TaskScope.Global ? vscode.TaskScope.Workspace : task.scope;
+	return createTask(task.definition, scope, task.name, runner, resolve);
+}
+
+/*
+	Watch mode: builds the Alan project of a saved `.alan` file, either shortly after saving or
+	when the editor loses focus. A build of the same project that is still running is cancelled, also when it was
+	started by hand from another folder of the project.
+*/
+export class AlanBuildWatcher implements vscode.Disposable {
+	private pending: Set<string> = new Set(); // alan roots with changes that haven't been built yet
+	private timer: NodeJS.Timer | undefined;
+	private disposables: vscode.Disposable[];
+
+	constructor(private runner: TaskRunner) {
+		this.disposables = [
+			vscode.workspace.onDidSaveTextDocument(document => this.onDidSave(document)),
+			vscode.window.onDidChangeWindowState(state => {
+				if (!state.focused) this.onDidLoseFocus();
+			}),
+			vscode.window.onDidChangeActiveTextEditor(() => this.onDidLoseFocus())
+		];
+	}
+
+	public dispose() {
+		if (this.timer) clearTimeout(this.timer);
+		this.disposables.forEach(disposable => disposable.dispose());
 	}
-}
\ No newline at end of file
+
+	private get mode(): string {
+		return vscode.workspace.getConfiguration('alan-definitions').get<string>('buildOnSave', 'off');
+	}
+
+	private async onDidSave(document: vscode.TextDocument) {
+		if (this.mode === 'off' || document.uri.scheme !== 'file' || path.extname(document.uri.fsPath) !== '.alan') return;
+
+		try {
+			this.pending.add(await resolveRoot(path.dirname(document.uri.fsPath), 'alan'));
+		} catch {
+			return; // not part of an alan project
+		}
+		if (this.mode === 'onSave') {
+			this.schedule();
+		}
+	}
+
+	private onDidLoseFocus() {
+		if (this.mode === 'onFocusChange' && this.pending.size > 0) {
+			this.schedule();
+		}
+	}
+
+	private schedule() {
+		if (this.timer) clearTimeout(this.timer);
+		const delay = vscode.workspace.getConfiguration('alan-definitions').get<number>('buildOnSaveDelay', 1000);
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			this.buildPending();
+		}, Math.max(0, delay));
+	}
+
+	private async buildPending() {
+		const alan_roots = Array.from(this.pending);
+		this.pending.clear();
+
+		for (const alan_root of alan_roots) {
+			const request = await build(alan_root, alan_root);
+			request.background = true;
+			this.runner.cancel(request);
+			this.runner.run(request);
+		}
+	}
+}
@@ -0,0 +1,146 @@
+'use strict';
+
+import * as assert from 'assert';
+import {findDefinitions, parse, Position, Range} from '../parser';
+import {Fix, identifierFixes, insertChild, numericalTypeFixes, TextEdit} from '../fixes';
+
+const model = [
+	'root {',
+	'\t\'Orders\': collection [\'Id\'] {',
+	'\t\t\'Id\': text',
+	'\t\t\'Amount\': number \'eur\'',
+	'\t\t\'Status\': stategroup (',
+	'\t\t\t\'Open\' { }',
+	'\t\t\t\'Closed\' { \'Date\': text }',
+	'\t\t\t\'Cancelled\' {',
+	'\t\t\t}',
+	'\t\t)',
+	'\t\t\'Total\': number \'euro\' = .\'Amout\'',
+	'\t\t\'Flag\': stategroup ( \'Yes\' { } \'No\' { } )',
+	'\t}',
+	'}',
+	'',
+	'numerical-types',
+	'\t\'euro\'',
+	''
+].join('\n');
+
+function offset(lines: string[], position: Position): number {
+	return lines.slice(0, position.line).reduce((sum, line) => sum + line.length + 1, 0) + position.character;
+}
+
+/* the text after applying `edits`, which don't overlap */
+function apply(text: string, edits: TextEdit[]): string {
+	const lines = text.split('\n');
+	return [...edits]
+		.sort((a, b) => offset(lines, b.range.start) - offset(lines, a.range.start))
+		.reduce((result, edit) => result.substring(0, offset(lines, edit.range.start)) + edit.text + result.substring(offset(lines, edit.range.end)), text);
+}
+
+function at(line: number, start_character: number, end_character = start_character): Range {
+	return { start: { line: line, character: start_character }, end: { line: line, character: end_character } };
+}
+
+function fixed(text: string, fix: Fix): string[] {
+	return apply(text, fix.edits).split('\n');
+}
+
+function insert(text: string, name: string, statement: string): string[] {
+	const tree = parse(text);
+	const node = tree.nodes.find(section => section.name === name) || findDefinitions(tree, name)[0];
+	const edit = insertChild(text.split('\n'), node, statement);
+	assert.ok(edit);
+	return apply(text, [edit]).split('\n');
+}
+
+describe('insertChild', () => {
+	it('inserts into an empty `{ }` body on one line', () => {
+		assert.deepStrictEqual(insert(model, 'Open', '\'Note\': text').slice(5, 8), [
+			'\t\t\t\'Open\' {',
+			'\t\t\t\t\'Note\': text',
+			'\t\t\t}'
+		]);
+	});
+
+	it('inserts into an empty body that spans lines', () => {
+		assert.deepStrictEqual(insert(model, 'Cancelled', '\'Note\': text').slice(7, 10), [
+			'\t\t\t\'Cancelled\' {',
+			'\t\t\t\t\'Note\': text',
+			'\t\t\t}'
+		]);
+	});
+
+	it('puts a one-line body on lines of its own', () => {
+		assert.deepStrictEqual(insert(model, 'Closed', '\'Note\': text').slice(6, 10), [
+			'\t\t\t\'Closed\' { \'Date\': text',
+			'\t\t\t\t\'Note\': text',
+			'\t\t\t}',
+			'\t\t\t\'Cancelled\' {'
+		]);
+	});
+
+	it('inserts after the last child of a body that spans lines', () => {
+		assert.deepStrictEqual(insert(model, 'Orders', '\'Note\': text').slice(11, 14), [
+			'\t\t\'Flag\': stategroup ( \'Yes\' { } \'No\' { } )',
+			'\t\t\'Note\': text',
+			'\t}'
+		]);
+	});
+
+	it('inserts into a section without brackets', () => {
+		assert.deepStrictEqual(insert(model, 'numerical-types', '\'eur\'').slice(15), ['numerical-types', '\t\'euro\'', '\t\'eur\'', '']);
+		assert.deepStrictEqual(insert('root { }\n\nnumerical-types\n', 'numerical-types', '\'eur\''), ['root { }', '', 'numerical-types', '\t\'eur\'', '']);
+	});
+});
+
+describe('numericalTypeFixes', () => {
+	it('changes a misspelled type or adds it to numerical-types', () => {
+		const fixes = numericalTypeFixes(parse(model), model.split('\n'), 'Undefined numerical type \'eur\'.', at(3, 20));
+		assert.deepStrictEqual(fixes.map(fix => [fix.title, fix.preferred]), [
+			['Change to \'euro\'', true],
+			['Add numerical type \'eur\' to numerical-types', false]
+		]);
+		assert.strictEqual(fixed(model, fixes[0])[3], '\t\t\'Amount\': number \'euro\'');
+		assert.deepStrictEqual(fixed(model, fixes[1]).slice(15), ['numerical-types', '\t\'euro\'', '\t\'eur\'', '']);
+	});
+
+	it('adds a numerical-types section at the end of a model without one', () => {
+		const text = 'root {\n\t\'Amount\': number \'eur\'\n}';
+		const fixes = numericalTypeFixes(parse(text), text.split('\n'), 'Undefined numerical type \'eur\'.', at(1, 19, 24));
+		assert.deepStrictEqual(fixes.map(fix => fix.title), ['Add numerical type \'eur\' to numerical-types']);
+		assert.deepStrictEqual(fixed(text, fixes[0]).slice(2), ['}', '', 'numerical-types', '\t\'eur\'', '']);
+	});
+
+	it('offers nothing for messages without a name', () => {
+		assert.deepStrictEqual(numericalTypeFixes(parse(model), model.split('\n'), 'build failed', at(3, 20)), []);
+	});
+});
+
+describe('identifierFixes', () => {
+	it('changes a misspelled property or creates it', () => {
+		const fixes = identifierFixes(parse(model), model.split('\n'), at(10, 27, 34));
+		assert.deepStrictEqual(fixes.map(fix => [fix.title, fix.preferred]), [
+			['Change to \'Amount\'', true],
+			['Create property \'Amout\' in \'Orders\'', false]
+		]);
+		assert.strictEqual(fixed(model, fixes[0])[10], '\t\t\'Total\': number \'euro\' = .\'Amount\'');
+		assert.deepStrictEqual(fixed(model, fixes[1]).slice(11, 13), ['\t\t\'Flag\': stategroup ( \'Yes\' { } \'No\' { } )', '\t\t\'Amout\': text']);
+	});
+
+	it('changes a misspelled state or creates it in its state group', () => {
+		const text = 'root {\n\t\'Status\': stategroup (\n\t\t\'Open\' { }\n\t\t\'Closed\' { }\n\t)\n\t\'Done\': text = .\'Status\'?\'Clsed\'\n}\n';
+		const fixes = identifierFixes(parse(text), text.split('\n'), at(5, 25, 32));
+		assert.deepStrictEqual(fixes.map(fix => fix.title), ['Change to \'Closed\'', 'Create state \'Clsed\' in \'Status\'']);
+		assert.strictEqual(fixed(text, fixes[0])[5], '\t\'Done\': text = .\'Status\'?\'Closed\'');
+		assert.deepStrictEqual(fixed(text, fixes[1]).slice(3, 5), ['\t\t\'Closed\' { }', '\t\t\'Clsed\' -> { }']);
+	});
+
+	it('finds the identifier on the lines of a diagnostic that starts elsewhere', () => {
+		const fixes = identifierFixes(parse(model), model.split('\n'), at(10, 0));
+		assert.strictEqual(fixes[0].title, 'Change to \'Amount\'');
+	});
+
+	it('offers nothing for identifiers that resolve', () => {
+		assert.deepStrictEqual(identifierFixes(parse(model), model.split('\n'), at(3, 20)), []);
+	});
+});
@@ -0,0 +1,48 @@
+'use strict';
+
+import * as assert from 'assert';
+import {parse, TokenType} from '../parser';
+import {locateToken} from '../resolver';
+import {findOccurrences, isInside, SourceFile} from '../occurrences';
+
+function source(file: string, text: string): SourceFile {
+	return { file: file, tree: parse(text) };
+}
+
+const model = 'root {\n\t\'Name\': text\n\t\'Copy\': text = .\'Name\'\n}\n';
+const shop = source('/work/shop/systems/server/application.alan', model);
+const shop_interface = source('/work/shop/interfaces/app/application.alan', 'root {\n\t\'Name\': text\n}\n');
+const crm = source('/work/crm/systems/server/application.alan', model);
+const files = [shop, shop_interface, crm];
+
+function occurrences(root: string | undefined, include_declaration: boolean) {
+	const token = shop.tree.tokens.find(candidate => candidate.type === TokenType.Identifier && candidate.value === 'Name');
+	return findOccurrences(files, root, shop, locateToken(shop.tree, token), include_declaration)
+		.map(occurrence => `${occurrence.file}:${occurrence.token.range.start.line}`);
+}
+
+describe('findOccurrences', () => {
+	it('only finds occurrences in the project of the document', () => {
+		assert.deepStrictEqual(occurrences('/work/shop', true), [
+			'/work/shop/systems/server/application.alan:1',
+			'/work/shop/systems/server/application.alan:2',
+			'/work/shop/interfaces/app/application.alan:1'
+		]);
+	});
+
+	it('leaves out declarations if asked to', () => {
+		assert.deepStrictEqual(occurrences('/work/shop', false), ['/work/shop/systems/server/application.alan:2']);
+	});
+
+	it('finds occurrences in all files for a document outside of a project', () => {
+		assert.strictEqual(occurrences(undefined, true).filter(occurrence => occurrence.startsWith('/work/crm/')).length, 2);
+	});
+});
+
+describe('isInside', () => {
+	it('compares whole folder names', () => {
+		assert.strictEqual(isInside('/work/shop/systems/server/application.alan', '/work/shop'), true);
+		assert.strictEqual(isInside('/work/shop', '/work/shop'), true);
+		assert.strictEqual(isInside('/work/shop2/application.alan', '/work/shop'), false);
+	});
+});
@@ -0,0 +1,155 @@
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {CompilerDiagnostic, diagnosticCode, diagnosticName, fullMessage, parseOutput} from '../output';
+
+const fixtures = path.resolve(__dirname, '../../../src/test/fixtures');
+
+function fixture(name: string): CompilerDiagnostic[] {
+	return parseOutput(fs.readFileSync(path.join(fixtures, name)).toString());
+}
+
+function range(start_line: number, start_character: number, end_line: number, end_character: number) {
+	return {
+		start: { line: start_line, character: start_character },
+		end: { line: end_line, character: end_character }
+	};
+}
+
+describe('parseOutput', () => {
+	describe('alan build', () => {
+		const diagnostics = fixture('build.txt');
+
+		it('finds every diagnostic and ignores progress lines', () => {
+			assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.severity), ['error', 'warning', 'error', 'error', 'error', 'error']);
+		});
+
+		it('reads `:L:C to L:C` ranges as zero-based ranges', () => {
+			assert.strictEqual(diagnostics[0].file, '/home/dev/shop/systems/server/application.alan');
+			assert.deepStrictEqual(diagnostics[0].range, range(11, 4, 11, 13));
+			assert.strictEqual(diagnostics[0].message, 'no property \'Custmer\' in \'Orders\'');
+		});
+
+		it('reads `:L:C` positions as empty ranges', () => {
+			assert.deepStrictEqual(diagnostics[1].range, range(26, 27, 26, 27));
+			assert.strictEqual(diagnostics[1].message, 'unknown numerical type \'eur\'');
+		});
+
+		it('keeps context lines that are indented with tabs or spaces', () => {
+			assert.deepStrictEqual(diagnostics[0].context, [
+				'\t-> ^ .\'Custmer\'[]',
+				'    expected one of the properties of \'Orders\'',
+				'  at /home/dev/shop/systems/server/application.alan:9:2: \'Orders\' is defined here'
+			]);
+			assert.strictEqual(fullMessage(diagnostics[0]).split('\n').length, 4);
+		});
+
+		it('turns location lines into related information', () => {
+			assert.deepStrictEqual(diagnostics[0].related, [{
+				file: '/home/dev/shop/systems/server/application.alan',
+				range: range(8, 1, 8, 1),
+				message: '\'Orders\' is defined here'
+			}]);
+		});
+
+		it('reads `.link` files with a position', () => {
+			assert.strictEqual(diagnostics[2].file, '/home/dev/shop/systems/server/model.lib.link');
+			assert.deepStrictEqual(diagnostics[2].range, range(2, 0, 2, 0));
+		});
+
+		it('reads `.link` files without a position at the start of the file', () => {
+			assert.strictEqual(diagnostics[3].file, '/home/dev/shop/systems/server/model.lib.link');
+			assert.deepStrictEqual(diagnostics[3].range, range(0, 0, 0, 0));
+			assert.strictEqual(diagnostics[3].message, 'link target does not exist');
+		});
+
+		it('reads windows paths with a drive letter', () => {
+			assert.strictEqual(diagnostics[4].file, 'C:/Users/dev/shop/interfaces/app/application.alan');
+			assert.deepStrictEqual(diagnostics[4].range, range(3, 1, 3, 8));
+			assert.deepStrictEqual(diagnostics[4].related, [{
+				file: 'C:/Users/dev/shop/interfaces/app/application.alan',
+				range: range(0, 0, 0, 0),
+				message: 'property \'Name\' does not exist'
+			}]);
+		});
+
+		it('reads plain `error:` lines without a file', () => {
+			assert.strictEqual(diagnostics[5].file, undefined);
+			assert.strictEqual(diagnostics[5].message, 'build failed with 4 errors');
+			assert.deepStrictEqual(diagnostics[5].context, []);
+		});
+	});
+
+	describe('alan fetch', () => {
+		const diagnostics = fixture('fetch.txt');
+
+		it('reads plain errors and warnings with their context', () => {
+			assert.deepStrictEqual(diagnostics.map(diagnostic => [diagnostic.file, diagnostic.severity, diagnostic.message]), [
+				[undefined, 'error', 'unable to download \'webclient\' 3.0.0: 404 Not Found'],
+				[undefined, 'warning', 'using cached \'platform\' 2.3.1']
+			]);
+			assert.deepStrictEqual(diagnostics[0].context, ['   https://registry.example.com/webclient/3.0.0']);
+		});
+	});
+
+	describe('alan package', () => {
+		const diagnostics = fixture('package.txt');
+
+		it('reads errors in connections.alan with a related location in a `.link` file', () => {
+			assert.strictEqual(diagnostics.length, 1);
+			assert.strictEqual(diagnostics[0].file, '/home/dev/shop/deployments/production/connections.alan');
+			assert.deepStrictEqual(diagnostics[0].range, range(1, 11, 1, 19));
+			assert.deepStrictEqual(diagnostics[0].related, [{
+				file: '/home/dev/shop/systems/server/model.lib.link',
+				range: range(0, 0, 0, 0),
+				message: 'available systems'
+			}]);
+		});
+	});
+
+	describe('raw compiler locations', () => {
+		it('reads ` from L:C to L:C` and ` at L:C` before they are rewritten', () => {
+			const diagnostics = parseOutput([
+				'/p/application.alan from 3:1 to 3:4 error: first',
+				'/p/application.alan at 5:2 warning: second'
+			].join('\n'));
+			assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.range), [range(2, 0, 2, 3), range(4, 1, 4, 1)]);
+		});
+
+		it('ends a diagnostic at an empty or unindented line', () => {
+			const diagnostics = parseOutput('error: first\n\n  not context\nerror: second\nsummary\n  not context either');
+			assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.context), [[], []]);
+		});
+	});
+});
+
+describe('diagnosticCode', () => {
+	it('recognizes the messages of the validator about names that don\'t exist', () => {
+		assert.strictEqual(diagnosticCode('Undefined numerical type \'euro\'.'), 'undefined-numerical-type');
+		assert.strictEqual(diagnosticName('Undefined numerical type \'euro\'.'), 'euro');
+		assert.strictEqual(diagnosticCode('Unable to resolve \'Custmer\'.'), 'unresolved-identifier');
+		assert.strictEqual(diagnosticName('Unable to resolve \'Custmer\'.'), 'Custmer');
+	});
+
+	it('leaves other messages alone', () => {
+		[
+			'Duplicate property \'Name\'.',
+			'Duplicate state \'Open\'.',
+			'Unterminated identifier.',
+			'unknown property type \'txt\'',
+			'cannot find library \'datastore\'',
+			'no system named \'sever\'',
+			'Unable to resolve \'Custmer\' in \'Orders\'.'
+		].forEach(message => {
+			assert.strictEqual(diagnosticCode(message), undefined, message);
+			assert.strictEqual(diagnosticName(message), undefined, message);
+		});
+	});
+
+	it('only looks at the first line of a message', () => {
+		assert.strictEqual(diagnosticCode('Unable to resolve \'Custmer\'.\n\texpected one of the properties of \'Orders\''), 'unresolved-identifier');
+		assert.strictEqual(diagnosticCode('syntax error\nUnable to resolve \'Custmer\'.'), undefined);
+	});
+});
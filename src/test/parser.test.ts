@@ -0,0 +1,50 @@
+'use strict';
+
+import * as assert from 'assert';
+import {parse, SyntaxNode} from '../parser';
+
+function outline(nodes: SyntaxNode[]): any[] {
+	return nodes.map(node => node.children.length > 0 ? [node.name, outline(node.children)] : node.name);
+}
+
+describe('parse', () => {
+	it('nests properties and states by brackets and indentation', () => {
+		const tree = parse([
+			'root {',
+			'\t\'Orders\': collection [\'Id\'] {',
+			'\t\t\'Id\': text',
+			'\t\t\'Status\': stategroup (',
+			'\t\t\t\'Open\' { }',
+			'\t\t\t\'Closed\' { \'Date\': text }',
+			'\t\t)',
+			'\t}',
+			'}',
+			'',
+			'numerical-types',
+			'\t\'euro\''
+		].join('\n'));
+		assert.deepStrictEqual(outline(tree.nodes), [
+			['root', [['Orders', ['Id', ['Status', ['Open', ['Closed', ['Date']]]]]]]],
+			['numerical-types', ['euro']]
+		]);
+		assert.deepStrictEqual(tree.errors, []);
+	});
+
+	it('starts a statement at each declaration on the same line', () => {
+		const tree = parse('root {\n\t\'G\': group { \'A\': text \'B\': text }\n\t\'C\': text\n}\n');
+		assert.deepStrictEqual(outline(tree.nodes), [['root', [['G', ['A', 'B']], 'C']]]);
+		const [a, b] = tree.nodes[0].children[0].children;
+		assert.deepStrictEqual(a.tokens.map(token => token.text), ['\'A\'', ':', 'text']);
+		assert.deepStrictEqual(b.tokens.map(token => token.text), ['\'B\'', ':', 'text']);
+	});
+
+	it('starts a statement at each state on the same line', () => {
+		const tree = parse('root {\n\t\'Flag\': stategroup ( \'Yes\' -> { } \'No\' -> { \'Reason\': text } )\n}\n');
+		assert.deepStrictEqual(outline(tree.nodes), [['root', [['Flag', ['Yes', ['No', ['Reason']]]]]]]);
+	});
+
+	it('keeps navigation steps in the statement that contains them', () => {
+		const tree = parse('root {\n\t\'A\': text\n\t\'B\': text = .\'A\'\n}\n');
+		assert.deepStrictEqual(outline(tree.nodes), [['root', ['A', 'B']]]);
+	});
+});
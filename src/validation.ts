@@ -0,0 +1,128 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {walk, Range, SyntaxTree, TokenType} from './parser';
+import {dataContext, isNavigationOperator, missingStep, navigationChain, numericalTypes} from './resolver';
+import {getSyntaxTree, toVSCodeRange} from './symbols';
+import {diagnosticCode} from './output';
+
+const validation_delay = 300; // ms
+
+export interface Problem {
+	message: string;
+	range: Range;
+	severity: 'error' | 'warning';
+}
+
+/*
+	Checks that don't need the compiler. Syntax problems are reported for all Alan files;
+	duplicate and undefined names only for models, where the parser knows how names are scoped.
+*/
+export function validate(tree: SyntaxTree, is_model: boolean): Problem[] {
+	const problems: Problem[] = tree.errors.map(error => ({
+		message: error.message,
+		range: error.range,
+		severity: 'error' as 'error'
+	}));
+	if (!is_model) return problems;
+
+	const siblings = [{ children: tree.nodes }];
+	walk(tree.nodes, node => siblings.push(node));
+	siblings.forEach(parent => {
+		const seen: Set<string> = new Set();
+		parent.children.forEach(child => {
+			if (child.kind === 'section') return;
+			const key = `${child.kind === 'state' ? 'state' : 'property'} ${child.name}`;
+			if (seen.has(key)) {
+				problems.push({
+					message: `Duplicate ${child.kind === 'state' ? 'state' : 'property'} '${child.name}'.`,
+					range: child.name_range,
+					severity: 'error'
+				});
+			}
+			seen.add(key);
+		});
+	});
+
+	const numerical_types = numericalTypes(tree);
+	walk(tree.nodes, node => {
+		if (node.numerical_type !== undefined && numerical_types.length > 0 && !numerical_types.some(type => type.name === node.numerical_type)) {
+			const token = node.tokens.find(token => token.type === TokenType.Identifier && token.value === node.numerical_type && token !== node.tokens[0]);
+			problems.push({
+				message: `Undefined numerical type '${node.numerical_type}'.`,
+				range: token ? token.range : node.name_range,
+				severity: 'error'
+			});
+		}
+		node.tokens.forEach((token, index) => {
+			if (index === 0 || token.type !== TokenType.Identifier || !isNavigationOperator(node.tokens[index - 1])) return;
+			const missing = missingStep(tree, dataContext(node), navigationChain(node.tokens, index));
+			if (missing && missing.token === token) {
+				problems.push({
+					message: `Unable to resolve '${token.value}'.`,
+					range: token.range,
+					severity: 'warning'
+				});
+			}
+		});
+	});
+	return problems;
+}
+
+function isModel(document: vscode.TextDocument): boolean {
+	return path.basename(document.fileName) === 'application.alan';
+}
+
+/* validates Alan documents while they are edited; publishes into its own collection so build results don't clear it */
+export class AlanValidator implements vscode.Disposable {
+	private diagnostics_collection: vscode.DiagnosticCollection = vscode.languages.createDiagnosticCollection('alan-validation');
+	private pending_validations: Map<string, NodeJS.Timer> = new Map();
+	private disposables: vscode.Disposable[] = [];
+
+	constructor() {
+		this.disposables.push(
+			this.diagnostics_collection,
+			vscode.workspace.onDidOpenTextDocument(document => this.validate(document)),
+			vscode.workspace.onDidChangeTextDocument(event => this.scheduleValidation(event.document)),
+			vscode.workspace.onDidCloseTextDocument(document => this.diagnostics_collection.delete(document.uri))
+		);
+		vscode.workspace.textDocuments.forEach(document => this.validate(document));
+	}
+
+	public dispose() {
+		this.pending_validations.forEach(timer => clearTimeout(timer));
+		this.pending_validations.clear();
+		this.disposables.forEach(disposable => disposable.dispose());
+	}
+
+	private scheduleValidation(document: vscode.TextDocument) {
+		if (document.languageId !== 'alan') return;
+
+		const key = document.uri.toString();
+		const pending = this.pending_validations.get(key);
+		if (pending) {
+			clearTimeout(pending);
+		}
+		this.pending_validations.set(key, setTimeout(() => {
+			this.pending_validations.delete(key);
+			this.validate(document);
+		}, validation_delay));
+	}
+
+	private validate(document: vscode.TextDocument) {
+		if (document.languageId !== 'alan' || document.isClosed) return;
+
+		const diagnostics = validate(getSyntaxTree(document), isModel(document)).map(problem => {
+			const diagnostic = new vscode.Diagnostic(
+				toVSCodeRange(problem.range),
+				problem.message,
+				problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+			);
+			diagnostic.source = 'alan';
+			diagnostic.code = diagnosticCode(problem.message);
+			return diagnostic;
+		});
+		this.diagnostics_collection.set(document.uri, diagnostics);
+	}
+}